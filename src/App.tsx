@@ -18,6 +18,7 @@ interface VideoItem {
   type: 'video' | 'stream';
   title: string;
   platform?: string;
+  videoId?: string;
   streamType?: string;
   quality?: string;
   size?: number;
@@ -51,6 +52,7 @@ function App() {
         type: 'video',
         title: state.videoInfo.title || '비디오',
         platform: state.videoInfo.platform,
+        videoId: state.videoInfo.videoId,
         duration: state.videoInfo.duration,
         url: state.videoInfo.url,
         thumbnailUrl: state.videoInfo.thumbnailUrl,
@@ -144,15 +146,12 @@ function App() {
         return;
       }
 
-      // Content Script에서 비디오 정보 가져오기
-      let videoResponse = null;
-      try {
-        videoResponse = await chrome.tabs.sendMessage(tab.id, {
-          type: 'GET_VIDEO_INFO'
-        });
-      } catch {
-        // Content script가 로드되지 않은 페이지
-      }
+      // Background에서 모든 프레임의 비디오 목록 가져오기
+      const videoResponse = await chrome.runtime.sendMessage({
+        type: 'GET_TAB_VIDEOS',
+        tabId: tab.id
+      }).catch(() => null);
+      const videos = (videoResponse?.videos as VideoInfo[]) || [];
 
       // Background에서 스트림 정보 가져오기
       const streamResponse = await chrome.runtime.sendMessage({
@@ -162,8 +161,8 @@ function App() {
 
       setState(prev => ({ 
         ...prev, 
-        videoInfo: videoResponse?.payload as VideoInfo || null,
-        allVideos: videoResponse?.videos as VideoInfo[] || [],
+        videoInfo: videos[0] || null,
+        allVideos: videos,
         streams: streamResponse?.payload as DetectedStream[] || [],
         error: null 
       }));
@@ -216,9 +215,20 @@ function App() {
     }
 
     try {
+      const [tab] = await chrome.tabs.query({ active: true, currentWindow: true });
+      const payload: VideoInfo = {
+        platform: (videoItem.platform as VideoInfo['platform']) || 'stream',
+        videoId: videoItem.videoId,
+        title: videoItem.title,
+        duration: videoItem.duration,
+        url: videoItem.url,
+        sourceUrl: videoItem.sourceUrl
+      };
+
       const response = await chrome.runtime.sendMessage({
         type: 'REQUEST_SUMMARY',
-        payload: { title: videoItem.title, url: videoItem.url }
+        payload,
+        tabId: tab?.id
       });
 
       if (response?.type === 'SUMMARY_RESPONSE') {
@@ -227,6 +237,12 @@ function App() {
           isLoading: false,
           summary: response.payload as SummaryResult
         }));
+      } else {
+        setState(prev => ({
+          ...prev,
+          isLoading: false,
+          error: (response?.payload as string) || '요약 생성 실패'
+        }));
       }
     } catch (error) {
       console.error('Failed to get summary:', error);
@@ -0,0 +1,264 @@
+import type { StreamRendition, StreamVariant } from '../types';
+import { getChild, getChildren, getTextContent, parseXml, type XmlElement } from '../services/xml';
+import { parseISODuration } from '../services/chunking';
+
+/**
+ * DASH(MPD) 매니페스트 파서
+ * Period → AdaptationSet(비디오/오디오/자막) → Representation(화질) 구조와 전체 길이를 추출
+ */
+
+export interface DashRepresentation {
+  id?: string;
+  bandwidth?: number;
+  width?: number;
+  height?: number;
+  codecs?: string;
+  mimeType?: string;
+  frameRate?: number;
+  url?: string;              // BaseURL (단일 파일일 때)
+  segmentDirectory?: string; // SegmentTemplate 세그먼트가 놓이는 디렉터리
+}
+
+export interface DashAdaptationSet {
+  contentType: 'video' | 'audio' | 'text' | 'other';
+  mimeType?: string;
+  codecs?: string;
+  lang?: string;
+  label?: string;
+  representations: DashRepresentation[];
+}
+
+export interface DashPeriod {
+  id?: string;
+  start?: number;
+  duration?: number;
+  adaptationSets: DashAdaptationSet[];
+}
+
+export interface DashManifest {
+  isLive: boolean;          // type="dynamic"
+  duration?: number;        // mediaPresentationDuration (초)
+  periods: DashPeriod[];
+}
+
+// 파일 하나로 내려받을 수 있는 자막 형식 (fMP4에 담긴 stpp/wvtt는 제외)
+const SIDECAR_SUBTITLE_MIME_TYPES = ['text/vtt', 'application/ttml+xml', 'application/x-subrip'];
+
+function resolveUrl(uri: string, baseUrl: string): string {
+  try {
+    return new URL(uri, baseUrl).href;
+  } catch {
+    return uri;
+  }
+}
+
+function toNumber(value?: string): number | undefined {
+  if (value === undefined) return undefined;
+  const number = Number(value);
+  return isNaN(number) ? undefined : number;
+}
+
+/**
+ * frameRate 속성 ("30", "30000/1001")
+ */
+function parseFrameRate(value?: string): number | undefined {
+  if (!value) return undefined;
+  const [numerator, denominator] = value.split('/').map(Number);
+  if (isNaN(numerator)) return undefined;
+  return denominator ? Math.round((numerator / denominator) * 100) / 100 : numerator;
+}
+
+/**
+ * 요소의 BaseURL을 상위 기준 URL에 이어 붙임
+ */
+function applyBaseUrl(element: XmlElement, baseUrl: string): string {
+  const base = getChild(element, 'BaseURL');
+  const text = base ? getTextContent(base).trim() : '';
+  return text ? resolveUrl(text, baseUrl) : baseUrl;
+}
+
+function getContentType(adaptationSet: XmlElement, representation?: XmlElement): DashAdaptationSet['contentType'] {
+  const { contentType } = adaptationSet.attributes;
+  if (contentType === 'video' || contentType === 'audio' || contentType === 'text') return contentType;
+
+  const mimeType = adaptationSet.attributes.mimeType || representation?.attributes.mimeType || '';
+  const codecs = adaptationSet.attributes.codecs || representation?.attributes.codecs || '';
+  if (mimeType.startsWith('video/')) return 'video';
+  if (mimeType.startsWith('audio/')) return 'audio';
+  if (mimeType.startsWith('text/') || mimeType.includes('ttml') || /^(stpp|wvtt)/.test(codecs)) return 'text';
+  if (getChildren(adaptationSet, 'Role').some(role => role.attributes.value === 'subtitle' || role.attributes.value === 'caption')) {
+    return 'text';
+  }
+  return 'other';
+}
+
+/**
+ * SegmentTemplate의 media 경로에서 세그먼트 디렉터리 계산
+ */
+function getSegmentDirectory(template: XmlElement | undefined, representation: XmlElement, baseUrl: string): string | undefined {
+  const media = template?.attributes.media;
+  if (!media) return undefined;
+
+  const path = media
+    .replace(/\$RepresentationID\$/g, representation.attributes.id || '')
+    .replace(/\$Bandwidth\$/g, representation.attributes.bandwidth || '');
+  const directory = path.slice(0, path.lastIndexOf('/') + 1);
+  if (directory.includes('$')) return undefined;
+  return resolveUrl(directory || './', baseUrl);
+}
+
+function parseAdaptationSet(element: XmlElement, periodBaseUrl: string, periodTemplate?: XmlElement): DashAdaptationSet {
+  const baseUrl = applyBaseUrl(element, periodBaseUrl);
+  const setTemplate = getChild(element, 'SegmentTemplate') || periodTemplate;
+  const representationElements = getChildren(element, 'Representation');
+  const label = getChild(element, 'Label');
+
+  const representations = representationElements.map((representation): DashRepresentation => {
+    const hasBaseUrl = !!getChild(representation, 'BaseURL') || !!getChild(element, 'BaseURL');
+    const representationUrl = applyBaseUrl(representation, baseUrl);
+    const template = getChild(representation, 'SegmentTemplate') || setTemplate;
+    const width = toNumber(representation.attributes.width || element.attributes.width);
+    const height = toNumber(representation.attributes.height || element.attributes.height);
+
+    return {
+      id: representation.attributes.id,
+      bandwidth: toNumber(representation.attributes.bandwidth),
+      width,
+      height,
+      codecs: representation.attributes.codecs || element.attributes.codecs,
+      mimeType: representation.attributes.mimeType || element.attributes.mimeType,
+      frameRate: parseFrameRate(representation.attributes.frameRate || element.attributes.frameRate),
+      url: hasBaseUrl && !template ? representationUrl : undefined,
+      segmentDirectory: getSegmentDirectory(template, representation, representationUrl)
+    };
+  });
+
+  // 높은 화질 순
+  representations.sort((a, b) => (b.bandwidth || 0) - (a.bandwidth || 0));
+
+  return {
+    contentType: getContentType(element, representationElements[0]),
+    mimeType: element.attributes.mimeType || representations[0]?.mimeType,
+    codecs: element.attributes.codecs || representations[0]?.codecs,
+    lang: element.attributes.lang,
+    label: label ? getTextContent(label).trim() : element.attributes.label,
+    representations
+  };
+}
+
+/**
+ * MPD 텍스트 파싱
+ * @param baseUrl 매니페스트 URL (상대 경로 해석용)
+ */
+export function parseMPD(text: string, baseUrl: string): DashManifest {
+  const mpd = parseXml(text);
+  if (mpd.name !== 'MPD') {
+    throw new Error('DASH 매니페스트 형식이 아닙니다');
+  }
+
+  const mpdBaseUrl = applyBaseUrl(mpd, baseUrl);
+  const periods = getChildren(mpd, 'Period').map((period): DashPeriod => {
+    const periodBaseUrl = applyBaseUrl(period, mpdBaseUrl);
+    const template = getChild(period, 'SegmentTemplate');
+    return {
+      id: period.attributes.id,
+      start: parseISODuration(period.attributes.start),
+      duration: parseISODuration(period.attributes.duration),
+      adaptationSets: getChildren(period, 'AdaptationSet').map(set => parseAdaptationSet(set, periodBaseUrl, template))
+    };
+  });
+
+  // mediaPresentationDuration이 없으면 Period 길이 합계
+  const periodTotal = periods.reduce((total, period) => total + (period.duration || 0), 0);
+  const isLive = mpd.attributes.type === 'dynamic';
+
+  return {
+    isLive,
+    duration: parseISODuration(mpd.attributes.mediaPresentationDuration) ?? (!isLive && periodTotal > 0 ? periodTotal : undefined),
+    periods
+  };
+}
+
+/**
+ * 매니페스트 가져와서 파싱
+ */
+export async function fetchDashManifest(url: string): Promise<DashManifest> {
+  const response = await fetch(url, { credentials: 'include' });
+  if (!response.ok) {
+    throw new Error(`매니페스트를 가져올 수 없습니다 (${response.status})`);
+  }
+  return parseMPD(await response.text(), url);
+}
+
+/**
+ * 화질 목록 (첫 Period 기준, 높은 화질 순)
+ */
+export function getDashVariants(manifest: DashManifest, manifestUrl: string): StreamVariant[] {
+  const sets = manifest.periods[0]?.adaptationSets.filter(set => set.contentType === 'video') || [];
+  return sets
+    .flatMap(set => set.representations)
+    .map(representation => ({
+      url: representation.url || manifestUrl,
+      bandwidth: representation.bandwidth,
+      resolution: representation.width && representation.height ? `${representation.width}x${representation.height}` : undefined,
+      codecs: representation.codecs,
+      frameRate: representation.frameRate
+    }))
+    .sort((a, b) => (b.bandwidth || 0) - (a.bandwidth || 0));
+}
+
+/**
+ * 오디오/자막 트랙 목록 (첫 Period 기준)
+ * 자막은 VTT/TTML 파일로 제공될 때만 url을 채움 (세그먼트로 쪼개진 자막은 url 없음)
+ */
+export function getDashRenditions(manifest: DashManifest): StreamRendition[] {
+  const sets = manifest.periods[0]?.adaptationSets || [];
+  const renditions: StreamRendition[] = [];
+
+  for (const set of sets) {
+    if (set.contentType !== 'audio' && set.contentType !== 'text') continue;
+
+    const representation = set.representations[0];
+    const mimeType = representation?.mimeType || set.mimeType || '';
+    const isSidecar = SIDECAR_SUBTITLE_MIME_TYPES.includes(mimeType) || /\.(vtt|ttml|dfxp|xml|srt)(\?|$)/i.test(representation?.url || '');
+
+    renditions.push({
+      type: set.contentType === 'audio' ? 'audio' : 'subtitles',
+      name: set.label || set.lang || '',
+      language: set.lang,
+      url: set.contentType === 'text' && isSidecar ? representation?.url : undefined
+    });
+  }
+
+  return renditions;
+}
+
+/**
+ * 세그먼트가 놓이는 디렉터리 (세그먼트 요청을 이 스트림으로 묶는 데 사용)
+ */
+export function getDashSegmentDirectories(manifest: DashManifest): string[] {
+  const directories = new Set<string>();
+  for (const period of manifest.periods) {
+    for (const set of period.adaptationSets) {
+      for (const representation of set.representations) {
+        if (representation.segmentDirectory) directories.add(representation.segmentDirectory);
+      }
+    }
+  }
+  return [...directories];
+}
+
+/**
+ * 화질/트랙별 파일 URL (BaseURL로 통째로 내려받는 Representation)
+ */
+export function getDashMediaUrls(manifest: DashManifest): string[] {
+  const urls = new Set<string>();
+  for (const period of manifest.periods) {
+    for (const set of period.adaptationSets) {
+      for (const representation of set.representations) {
+        if (representation.url) urls.add(representation.url);
+      }
+    }
+  }
+  return [...urls];
+}
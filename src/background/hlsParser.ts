@@ -0,0 +1,137 @@
+import type { StreamRendition, StreamVariant } from '../types';
+
+/**
+ * HLS(m3u8) 플레이리스트 파서
+ * 마스터 플레이리스트: 화질(EXT-X-STREAM-INF)과 오디오/자막 트랙(EXT-X-MEDIA)
+ * 미디어 플레이리스트: 세그먼트 목록과 전체 길이(EXTINF 합계)
+ */
+
+export interface HlsMasterPlaylist {
+  kind: 'master';
+  variants: StreamVariant[];
+  renditions: StreamRendition[];
+}
+
+export interface HlsMediaPlaylist {
+  kind: 'media';
+  segments: string[];       // 절대 URL
+  duration: number;         // 초
+  targetDuration?: number;
+  isLive: boolean;          // EXT-X-ENDLIST가 없으면 라이브(진행 중)
+}
+
+export type HlsPlaylist = HlsMasterPlaylist | HlsMediaPlaylist;
+
+/**
+ * 속성 목록 파싱 (BANDWIDTH=1280000,RESOLUTION=1280x720,CODECS="avc1.4d401f,mp4a.40.2")
+ */
+export function parseAttributeList(value: string): Record<string, string> {
+  const attributes: Record<string, string> = {};
+  const pattern = /([A-Z0-9-]+)=("[^"]*"|[^,]*)/g;
+  let match: RegExpExecArray | null;
+  while ((match = pattern.exec(value)) !== null) {
+    attributes[match[1]] = match[2].replace(/^"|"$/g, '');
+  }
+  return attributes;
+}
+
+function resolveUrl(uri: string, baseUrl: string): string {
+  try {
+    return new URL(uri, baseUrl).href;
+  } catch {
+    return uri;
+  }
+}
+
+function toNumber(value?: string): number | undefined {
+  if (value === undefined) return undefined;
+  const number = Number(value);
+  return isNaN(number) ? undefined : number;
+}
+
+/**
+ * m3u8 텍스트 파싱
+ * @param baseUrl 플레이리스트 URL (상대 경로 해석용)
+ */
+export function parseM3U8(text: string, baseUrl: string): HlsPlaylist {
+  const lines = text.replace(/\r\n?/g, '\n').split('\n').map(line => line.trim()).filter(Boolean);
+  if (lines[0] !== '#EXTM3U') {
+    throw new Error('HLS 플레이리스트 형식이 아닙니다');
+  }
+
+  const variants: StreamVariant[] = [];
+  const renditions: StreamRendition[] = [];
+  const segments: string[] = [];
+  let duration = 0;
+  let targetDuration: number | undefined;
+  let isLive = true;
+  let pendingVariant: StreamVariant | null = null;
+  let isMaster = false;
+
+  for (const line of lines) {
+    if (line.startsWith('#EXT-X-STREAM-INF:')) {
+      isMaster = true;
+      const attrs = parseAttributeList(line.slice('#EXT-X-STREAM-INF:'.length));
+      pendingVariant = {
+        url: '',
+        bandwidth: toNumber(attrs['AVERAGE-BANDWIDTH']) ?? toNumber(attrs.BANDWIDTH),
+        resolution: attrs.RESOLUTION,
+        codecs: attrs.CODECS,
+        frameRate: toNumber(attrs['FRAME-RATE'])
+      };
+    } else if (line.startsWith('#EXT-X-MEDIA:')) {
+      isMaster = true;
+      const attrs = parseAttributeList(line.slice('#EXT-X-MEDIA:'.length));
+      renditions.push({
+        type: (attrs.TYPE || 'AUDIO').toLowerCase() as StreamRendition['type'],
+        name: attrs.NAME || attrs.LANGUAGE || attrs['GROUP-ID'] || '',
+        language: attrs.LANGUAGE,
+        url: attrs.URI ? resolveUrl(attrs.URI, baseUrl) : undefined,
+        isDefault: attrs.DEFAULT === 'YES'
+      });
+    } else if (line.startsWith('#EXTINF:')) {
+      duration += parseFloat(line.slice('#EXTINF:'.length)) || 0;
+    } else if (line.startsWith('#EXT-X-TARGETDURATION:')) {
+      targetDuration = toNumber(line.slice('#EXT-X-TARGETDURATION:'.length));
+    } else if (line === '#EXT-X-ENDLIST' || line === '#EXT-X-PLAYLIST-TYPE:VOD') {
+      isLive = false;
+    } else if (!line.startsWith('#')) {
+      // URI 줄: 화질 항목이면 화질 URL, 아니면 세그먼트
+      if (pendingVariant) {
+        pendingVariant.url = resolveUrl(line, baseUrl);
+        variants.push(pendingVariant);
+        pendingVariant = null;
+      } else {
+        segments.push(resolveUrl(line, baseUrl));
+      }
+    }
+  }
+
+  if (isMaster) {
+    // 높은 화질 순
+    variants.sort((a, b) => (b.bandwidth || 0) - (a.bandwidth || 0));
+    return { kind: 'master', variants, renditions };
+  }
+  return { kind: 'media', segments, duration, targetDuration, isLive };
+}
+
+/**
+ * 플레이리스트 가져와서 파싱
+ */
+export async function fetchHlsPlaylist(url: string): Promise<HlsPlaylist> {
+  const response = await fetch(url, { credentials: 'include' });
+  if (!response.ok) {
+    throw new Error(`플레이리스트를 가져올 수 없습니다 (${response.status})`);
+  }
+  return parseM3U8(await response.text(), url);
+}
+
+/**
+ * 화질 표시 ("1080p", 해상도가 없으면 대역폭)
+ */
+export function formatVariantQuality(variant: StreamVariant): string | undefined {
+  const height = variant.resolution?.split('x')[1];
+  if (height) return `${height}p`;
+  if (variant.bandwidth) return `${Math.round(variant.bandwidth / 1000)}kbps`;
+  return undefined;
+}
@@ -1,5 +1,9 @@
-import type { Message, VideoInfo, SummaryResult } from '../types';
+import type { Message, VideoInfo, SummaryResult, AnalysisMode } from '../types';
+import type { VideoAnalysis } from '../services/openai';
+import { runAnalysis } from '../services/analysis';
 import { streamDetector } from './streamDetector';
+import { tabVideos } from './tabVideos';
+import { fetchOEmbed, isAllowedOEmbedUrl } from './oembed';
 
 /**
  * Background Service Worker
@@ -8,8 +12,15 @@ import { streamDetector } from './streamDetector';
  * - AI API 연동
  */
 
-// 현재 탭의 비디오 정보 저장 (캐싱용)
-const videoInfoCache: Map<number, VideoInfo> = new Map();
+// 스트림과 프레임별 비디오 목록 복원 완료 (Service Worker 재시작 직후)
+const stateReady = Promise.all([streamDetector.ready, tabVideos.ready]);
+
+/**
+ * 탭의 감지 항목 수 (네트워크 스트림 + 모든 프레임의 페이지 비디오)
+ */
+function getDetectedCount(tabId: number): number {
+  return streamDetector.getStreams(tabId).length + tabVideos.getVideos(tabId).length;
+}
 
 /**
  * 확장 프로그램 아이콘 배지 업데이트
@@ -25,64 +36,115 @@ async function updateBadge(count: number, tabId?: number) {
 }
 
 /**
- * AI를 통한 비디오 요약 생성
- * TODO: 실제 AI API 연동 필요 (OpenAI, Claude 등)
+ * 초를 MM:SS (1시간 이상이면 H:MM:SS) 형식으로 변환
  */
-async function generateSummary(videoInfo: VideoInfo): Promise<SummaryResult> {
-  console.log('[Background] Generating summary for:', videoInfo);
+function formatTimestamp(seconds: number): string {
+  const hrs = Math.floor(seconds / 3600);
+  const mins = Math.floor((seconds % 3600) / 60);
+  const secs = Math.floor(seconds % 60);
+  const mmss = `${mins.toString().padStart(2, '0')}:${secs.toString().padStart(2, '0')}`;
+  return hrs > 0 ? `${hrs}:${mmss}` : mmss;
+}
 
-  // 임시 구현 - 실제로는 AI API 호출 필요
+/**
+ * 분석 결과(VideoAnalysis)를 SummaryResult 형식으로 변환
+ */
+function toSummaryResult(analysis: VideoAnalysis): SummaryResult {
   return {
-    summary: `"${videoInfo.title}" 비디오의 요약입니다.\n\n이 기능을 완성하려면 AI API 키를 설정해주세요.`,
-    tableOfContents: [
-      { title: '소개', timestamp: '00:00', description: '비디오 시작' },
-      { title: '본론', timestamp: '05:00', description: '주요 내용' },
-      { title: '결론', timestamp: '10:00', description: '마무리' }
-    ],
-    keywords: ['비디오', '요약', '크롬 확장'],
+    summary: analysis.summary,
+    tableOfContents: analysis.tableOfContents.map(item => ({
+      title: item.title,
+      timestamp: item.timestampSeconds !== undefined ? formatTimestamp(item.timestampSeconds) : undefined,
+      description: item.description
+    })),
+    keywords: analysis.keywords,
     timestamp: Date.now()
   };
 }
 
+/**
+ * AI를 통한 비디오 요약 생성
+ * Side Panel과 동일한 분석 파이프라인(services/analysis) 사용
+ */
+async function generateSummary(videoInfo: VideoInfo, mode: AnalysisMode, tabId?: number): Promise<SummaryResult> {
+  console.log('[Background] Generating summary for:', videoInfo);
+
+  const analysis = await runAnalysis(
+    {
+      videoId: videoInfo.videoId,
+      title: videoInfo.title || videoInfo.url,
+      url: videoInfo.url,
+      platform: videoInfo.platform,
+      duration: videoInfo.duration,
+      sourceUrl: videoInfo.sourceUrl,
+      description: videoInfo.description,
+      frameId: videoInfo.frameId,
+      elementPath: videoInfo.elementPath
+    },
+    mode,
+    {
+      tabId,
+      onProgress: (step, message) => console.log(`[Background] [${step}] ${message}`)
+    }
+  );
+
+  return toSummaryResult(analysis);
+}
+
 /**
  * 메시지 리스너
  */
 chrome.runtime.onMessage.addListener((message: Message, sender: chrome.runtime.MessageSender, sendResponse: (response: unknown) => void) => {
+  // 재생 위치 알림은 사이드 패널에서만 처리
+  if (message.type === 'VIDEO_TIME_UPDATE') return false;
+
   console.log('[Background] Message received:', message.type);
 
   switch (message.type) {
     case 'VIDEO_DETECTED':
-      // Content Script에서 비디오 감지 알림
+      // Content Script에서 비디오 감지 알림 (프레임별 전체 목록)
       if (sender.tab?.id) {
-        videoInfoCache.set(sender.tab.id, message.payload as VideoInfo);
-        const streams = streamDetector.getStreams(sender.tab.id);
-        updateBadge(streams.length + 1, sender.tab.id);
+        const tabId = sender.tab.id;
+        const payload = message.payload as VideoInfo | VideoInfo[] | null;
+        const videos = Array.isArray(payload) ? payload : payload ? [payload] : [];
+        stateReady.then(() => {
+          tabVideos.setFrameVideos(tabId, sender.frameId ?? 0, videos);
+          updateBadge(getDetectedCount(tabId), tabId);
+        });
       }
       sendResponse({ success: true });
       break;
 
+    case 'GET_TAB_VIDEOS': {
+      // 탭의 모든 프레임에서 감지한 비디오 목록 (보고한 프레임에 최신 정보를 다시 요청한 뒤 응답)
+      const tabId = message.tabId || sender.tab?.id;
+      if (!tabId) {
+        sendResponse({ videos: [] });
+        break;
+      }
+      tabVideos.refresh(tabId).then(() => {
+        sendResponse({ videos: tabVideos.getVideos(tabId) });
+      });
+      return true; // 비동기 응답
+    }
+
     case 'GET_STREAMS': {
       // 현재 탭의 스트림 목록 요청
+      // 재시작 직후에는 저장된 스트림 복원을 기다린 뒤 응답
       const tabId = message.tabId || sender.tab?.id;
-      if (tabId) {
-        const streams = streamDetector.getStreams(tabId);
-        sendResponse({
-          type: 'STREAMS_RESPONSE',
-          payload: streams
-        });
-      } else {
+      streamDetector.ready.then(() => {
         sendResponse({
           type: 'STREAMS_RESPONSE',
-          payload: []
+          payload: tabId ? streamDetector.getStreams(tabId) : []
         });
-      }
-      break;
+      });
+      return true; // 비동기 응답
     }
 
     case 'REQUEST_SUMMARY': {
       // 요약 요청 처리
       const videoInfo = message.payload as VideoInfo;
-      generateSummary(videoInfo)
+      generateSummary(videoInfo, message.mode || 'transcript', message.tabId || sender.tab?.id)
         .then(summary => {
           sendResponse({
             type: 'SUMMARY_RESPONSE',
@@ -114,6 +176,21 @@ chrome.runtime.onMessage.addListener((message: Message, sender: chrome.runtime.M
       sendResponse({ error: '탭 정보 없음' });
       break;
 
+    case 'FETCH_OEMBED':
+      // oEmbed 메타데이터 요청 (페이지에서는 CORS로 막히는 경우가 많음)
+      // 탭의 Content Script가 보낸, 허용된 엔드포인트 주소만 요청
+      if (sender.tab && sender.url && message.url && isAllowedOEmbedUrl(message.url, sender.url)) {
+        fetchOEmbed(message.url)
+          .then(data => sendResponse({ data }))
+          .catch(err => {
+            console.log('[Background] oEmbed 요청 실패:', err);
+            sendResponse({ error: err.message });
+          });
+        return true; // 비동기 응답
+      }
+      sendResponse({ error: '허용되지 않은 oEmbed 주소' });
+      break;
+
     default:
       sendResponse({ type: 'ERROR', payload: 'Unknown message type' });
   }
@@ -126,10 +203,8 @@ chrome.runtime.onMessage.addListener((message: Message, sender: chrome.runtime.M
  */
 chrome.tabs.onActivated.addListener(async (activeInfo) => {
   try {
-    const streams = streamDetector.getStreams(activeInfo.tabId);
-    const cached = videoInfoCache.get(activeInfo.tabId);
-    const count = streams.length + (cached ? 1 : 0);
-    updateBadge(count, activeInfo.tabId);
+    await stateReady;
+    updateBadge(getDetectedCount(activeInfo.tabId), activeInfo.tabId);
   } catch {
     updateBadge(0, activeInfo.tabId);
   }
@@ -140,10 +215,18 @@ chrome.tabs.onActivated.addListener(async (activeInfo) => {
  */
 chrome.runtime.onMessage.addListener((message: Message) => {
   if (message.type === 'STREAM_DETECTED' && message.tabId) {
-    const streams = streamDetector.getStreams(message.tabId);
-    const cached = videoInfoCache.get(message.tabId);
-    const count = streams.length + (cached ? 1 : 0);
-    updateBadge(count, message.tabId);
+    updateBadge(getDetectedCount(message.tabId), message.tabId);
+  }
+});
+
+/**
+ * 탭이 닫히거나 다른 페이지로 이동하면 비디오 목록 정리
+ */
+chrome.tabs.onRemoved.addListener(tabId => tabVideos.clearTab(tabId));
+
+chrome.tabs.onUpdated.addListener((tabId, changeInfo) => {
+  if (changeInfo.status === 'loading' && changeInfo.url) {
+    tabVideos.clearTab(tabId);
   }
 });
 
@@ -0,0 +1,68 @@
+/**
+ * oEmbed 메타데이터 요청 (Content Script의 발견 링크 대신 요청)
+ * 페이지에서는 CORS로 막히는 경우가 많아 Background에서 요청하지만,
+ * 임의 주소를 대신 요청하는 프록시가 되지 않도록 엔드포인트와 응답을 제한
+ */
+
+// 알려진 비디오 플랫폼의 oEmbed 엔드포인트 도메인 (하위 도메인 포함)
+const KNOWN_OEMBED_HOSTS = [
+  'youtube.com',
+  'vimeo.com',
+  'dailymotion.com',
+  'wistia.com',
+  'wistia.net',
+  'loom.com',
+  'ted.com'
+];
+
+// 돌려주는 필드 (Content Script의 OEmbedResponse)
+export interface OEmbedFields {
+  type?: string;
+  title?: string;
+  author_name?: string;
+  thumbnail_url?: string;
+  duration?: number;
+}
+
+function matchesHost(hostname: string, domain: string): boolean {
+  return hostname === domain || hostname.endsWith(`.${domain}`);
+}
+
+/**
+ * 요청해도 되는 oEmbed 주소인지
+ * - http(s)만
+ * - 알려진 플랫폼 엔드포인트, 또는 요청한 페이지와 같은 호스트 (WordPress 등 사이트 자체 엔드포인트)
+ */
+export function isAllowedOEmbedUrl(url: string, pageUrl: string): boolean {
+  try {
+    const target = new URL(url);
+    const page = new URL(pageUrl);
+    if (!/^https?:$/.test(target.protocol) || !/^https?:$/.test(page.protocol)) return false;
+    return target.hostname === page.hostname || KNOWN_OEMBED_HOSTS.some(domain => matchesHost(target.hostname, domain));
+  } catch {
+    return false;
+  }
+}
+
+/**
+ * oEmbed 응답 가져오기 (JSON 응답만, 메타데이터 필드만 반환)
+ */
+export async function fetchOEmbed(url: string): Promise<OEmbedFields> {
+  const response = await fetch(url, { credentials: 'omit' });
+  if (!response.ok) {
+    throw new Error(`oEmbed 요청 실패 (${response.status})`);
+  }
+  if (!/\bjson\b/i.test(response.headers.get('content-type') || '')) {
+    throw new Error('oEmbed 응답이 JSON이 아닙니다');
+  }
+
+  const data: Record<string, unknown> = await response.json();
+  const text = (value: unknown) => typeof value === 'string' ? value : undefined;
+  return {
+    type: text(data.type),
+    title: text(data.title),
+    author_name: text(data.author_name),
+    thumbnail_url: text(data.thumbnail_url),
+    duration: typeof data.duration === 'number' ? data.duration : undefined
+  };
+}
@@ -0,0 +1,64 @@
+/**
+ * 탭별 상태를 chrome.storage.session에 미러링
+ * MV3 Service Worker는 유휴 상태가 되면 종료되므로, 메모리 Map을 다시 시작할 때 복원하는 데 사용
+ * 키 형식: `${prefix}:${tabId}`
+ */
+export class TabSessionStore<T> {
+  // 탭별 저장 대기 타이머 (세그먼트 집계처럼 잦은 변경은 묶어서 저장)
+  private timers: Map<number, ReturnType<typeof setTimeout>> = new Map();
+
+  private readonly prefix: string;
+  private readonly delay: number;
+
+  constructor(prefix: string, delay: number = 300) {
+    this.prefix = prefix;
+    this.delay = delay;
+  }
+
+  private key(tabId: number): string {
+    return `${this.prefix}:${tabId}`;
+  }
+
+  /**
+   * 저장된 모든 탭 상태 읽기
+   */
+  async loadAll(): Promise<Map<number, T>> {
+    const restored = new Map<number, T>();
+    try {
+      const items = await chrome.storage.session.get(null);
+      for (const [key, value] of Object.entries(items)) {
+        if (!key.startsWith(`${this.prefix}:`)) continue;
+        const tabId = Number(key.slice(this.prefix.length + 1));
+        if (!isNaN(tabId)) restored.set(tabId, value as T);
+      }
+    } catch (error) {
+      console.log(`[SessionStore] ${this.prefix} restore failed:`, error);
+    }
+    return restored;
+  }
+
+  /**
+   * 탭 상태 저장 (delay 동안의 변경을 모아 마지막 값만 기록)
+   * @param getValue 저장 시점에 직렬화할 값
+   */
+  save(tabId: number, getValue: () => T) {
+    clearTimeout(this.timers.get(tabId));
+    this.timers.set(tabId, setTimeout(() => {
+      this.timers.delete(tabId);
+      chrome.storage.session.set({ [this.key(tabId)]: getValue() }).catch(error => {
+        console.log(`[SessionStore] ${this.prefix} save failed:`, error);
+      });
+    }, this.delay));
+  }
+
+  /**
+   * 탭 상태 삭제 (탭 닫힘, 페이지 이동)
+   */
+  remove(tabId: number) {
+    clearTimeout(this.timers.get(tabId));
+    this.timers.delete(tabId);
+    chrome.storage.session.remove(this.key(tabId)).catch(() => {
+      // 이미 없으면 무시
+    });
+  }
+}
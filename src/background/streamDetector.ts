@@ -1,4 +1,7 @@
 import type { DetectedStream, StreamType } from '../types';
+import { fetchHlsPlaylist, formatVariantQuality } from './hlsParser';
+import { fetchDashManifest, getDashMediaUrls, getDashRenditions, getDashSegmentDirectories, getDashVariants } from './dashParser';
+import { TabSessionStore } from './sessionStore';
 
 // webRequest 응답 타입 정의
 interface WebResponseDetails {
@@ -9,6 +12,35 @@ interface WebResponseDetails {
   responseHeaders?: Array<{ name: string; value?: string }>;
 }
 
+// 탭별 HLS/DASH 묶음 색인 (화질별/트랙 플레이리스트·파일 URL, 세그먼트 경로 → 대표 스트림)
+interface ManifestGroupIndex {
+  playlists: Map<string, DetectedStream>;
+  segmentDirs: Map<string, DetectedStream>;
+  countedSegments: Set<string>;   // 응답 이벤트가 두 번 오므로 중복 집계 방지 (최근 MAX_COUNTED_SEGMENTS개)
+}
+
+// chrome.storage.session에 저장하는 탭 상태 (묶음 색인은 대표 스트림 URL로 기록)
+interface PersistedTabStreams {
+  streams: DetectedStream[];
+  playlists: Array<[string, string]>;
+  segmentDirs: Array<[string, string]>;
+  countedSegments?: string[];
+}
+
+// 중복 집계 방지용으로 기억하는 세그먼트 URL 수 (같은 세그먼트의 응답 이벤트는 연달아 오므로 최근 것만)
+const MAX_COUNTED_SEGMENTS = 200;
+
+// 세그먼트 파일 (단독으로는 재생할 수 없으므로 목록에 표시하지 않음)
+const SEGMENT_URL_PATTERN = /\.(ts|m4s|aac|fmp4|cmfv|cmfa)(?:\?|$|#)/i;
+
+/**
+ * URL의 디렉터리 부분 (쿼리 제외, 마지막 '/'까지)
+ */
+function getUrlDirectory(url: string): string {
+  const path = url.split(/[?#]/)[0];
+  return path.substring(0, path.lastIndexOf('/') + 1);
+}
+
 /**
  * 네트워크 요청을 감시하여 비디오 스트림을 감지하는 클래스
  * Video DownloadHelper 방식 참고
@@ -16,6 +48,18 @@ interface WebResponseDetails {
 export class StreamDetector {
   // 탭별 감지된 스트림 저장
   private streams: Map<number, DetectedStream[]> = new Map();
+
+  // 탭별 HLS/DASH 묶음 색인
+  private manifestIndex: Map<number, ManifestGroupIndex> = new Map();
+
+  // Service Worker 재시작 후 복원용 저장소
+  private store = new TabSessionStore<PersistedTabStreams>('streams');
+
+  // 복원이 끝나기 전에 들어온 응답 (복원 후 순서대로 처리)
+  private pendingResponses: WebResponseDetails[] | null = [];
+
+  // 저장된 스트림 복원 완료
+  readonly ready: Promise<void>;
   
   // 비디오 관련 MIME 타입 (확장)
   private readonly VIDEO_MIME_TYPES = [
@@ -106,6 +150,54 @@ export class StreamDetector {
 
   constructor() {
     this.setupListeners();
+    this.ready = this.restore();
+  }
+
+  /**
+   * chrome.storage.session에서 탭별 스트림과 묶음 색인 복원
+   */
+  private async restore() {
+    const restored = await this.store.loadAll();
+
+    restored.forEach((state, tabId) => {
+      const streams = state.streams || [];
+      const byUrl = new Map(streams.map(stream => [stream.url, stream]));
+      const toMap = (entries: Array<[string, string]> = []) => new Map(
+        entries
+          .filter(([, ownerUrl]) => byUrl.has(ownerUrl))
+          .map(([url, ownerUrl]): [string, DetectedStream] => [url, byUrl.get(ownerUrl)!])
+      );
+
+      this.streams.set(tabId, streams);
+      this.manifestIndex.set(tabId, {
+        playlists: toMap(state.playlists),
+        segmentDirs: toMap(state.segmentDirs),
+        countedSegments: new Set(state.countedSegments || [])
+      });
+    });
+
+    const pending = this.pendingResponses || [];
+    this.pendingResponses = null;
+    pending.forEach(details => this.handleResponse(details));
+
+    console.log('[StreamDetector] Restored streams for', restored.size, 'tabs');
+  }
+
+  /**
+   * 탭 상태를 chrome.storage.session에 저장
+   */
+  private persist(tabId: number) {
+    this.store.save(tabId, () => {
+      const index = this.manifestIndex.get(tabId);
+      const toEntries = (map?: Map<string, DetectedStream>) =>
+        [...(map || [])].map(([url, owner]): [string, string] => [url, owner.url]);
+      return {
+        streams: this.getStreams(tabId),
+        playlists: toEntries(index?.playlists),
+        segmentDirs: toEntries(index?.segmentDirs),
+        countedSegments: [...(index?.countedSegments || [])]
+      };
+    });
   }
 
   /**
@@ -131,13 +223,17 @@ export class StreamDetector {
 
     // 탭 닫힐 때 스트림 정보 정리
     chrome.tabs.onRemoved.addListener((tabId) => {
-      this.streams.delete(tabId);
+      this.ready.then(() => {
+        this.streams.delete(tabId);
+        this.manifestIndex.delete(tabId);
+        this.store.remove(tabId);
+      });
     });
 
     // 탭 URL 변경 시 스트림 정보 초기화
     chrome.tabs.onUpdated.addListener((tabId, changeInfo) => {
       if (changeInfo.status === 'loading' && changeInfo.url) {
-        this.streams.set(tabId, []);
+        this.ready.then(() => this.clearStreams(tabId));
       }
     });
 
@@ -148,6 +244,11 @@ export class StreamDetector {
    * 응답 처리
    */
   private handleResponse(details: WebResponseDetails) {
+    if (this.pendingResponses) {
+      this.pendingResponses.push(details);
+      return;
+    }
+
     const { url, tabId, responseHeaders, type, statusCode } = details;
 
     // 탭 ID가 없거나 유효하지 않으면 무시
@@ -189,6 +290,24 @@ export class StreamDetector {
     // 비디오로 판단되면 저장
     if (isVideoMime || isVideoUrl || (isMediaType && this.looksLikeVideo(url, contentType))) {
       const streamType = this.detectStreamType(url, contentType);
+
+      // HLS 화질별 플레이리스트, DASH 화질별 파일과 세그먼트는 대표 매니페스트에 묶음
+      const owner = this.findManifestOwner(tabId, url);
+      if (owner) {
+        const counted = this.getManifestIndex(tabId).countedSegments;
+        if (SEGMENT_URL_PATTERN.test(url) && !counted.has(url)) {
+          counted.add(url);
+          if (counted.size > MAX_COUNTED_SEGMENTS) {
+            counted.delete(counted.values().next().value!);
+          }
+          owner.segmentCount = (owner.segmentCount || 0) + 1;
+          this.persist(tabId);
+        }
+        return;
+      }
+      if (SEGMENT_URL_PATTERN.test(url)) {
+        return;
+      }
       
       // 너무 작은 파일 무시 (5KB 미만, 세그먼트 제외)
       if (size && size < 5000 && streamType !== 'hls' && streamType !== 'dash') {
@@ -327,9 +446,139 @@ export class StreamDetector {
     }
     
     this.streams.set(tabId, existing);
+    this.persist(tabId);
 
     // 스트림 감지 알림
     this.notifyStreamDetected(tabId, stream);
+
+    if (stream.type === 'hls' && /\.m3u8(?:\?|$|#)|mpegurl/i.test(`${stream.url} ${stream.contentType || ''}`)) {
+      this.inspectHlsPlaylist(tabId, stream);
+    } else if (stream.type === 'dash' && /\.mpd(?:\?|$|#)|dash\+xml/i.test(`${stream.url} ${stream.contentType || ''}`)) {
+      this.inspectDashManifest(tabId, stream);
+    }
+  }
+
+  /**
+   * URL이 속한 HLS/DASH 대표 스트림 (화질별 플레이리스트·파일 또는 세그먼트 경로로 판단)
+   * 경로 비교는 세그먼트/플레이리스트에만 적용 (같은 폴더의 일반 mp4 파일은 별도 항목)
+   */
+  private findManifestOwner(tabId: number, url: string): DetectedStream | undefined {
+    const index = this.manifestIndex.get(tabId);
+    if (!index) return undefined;
+    if (index.playlists.has(url)) return index.playlists.get(url);
+    if (SEGMENT_URL_PATTERN.test(url) || /\.m3u8(?:\?|$|#)/i.test(url)) {
+      return index.segmentDirs.get(getUrlDirectory(url));
+    }
+    return undefined;
+  }
+
+  private getManifestIndex(tabId: number): ManifestGroupIndex {
+    let index = this.manifestIndex.get(tabId);
+    if (!index) {
+      index = { playlists: new Map(), segmentDirs: new Map(), countedSegments: new Set() };
+      this.manifestIndex.set(tabId, index);
+    }
+    return index;
+  }
+
+  /**
+   * HLS 플레이리스트를 가져와 화질/트랙/길이 정보를 채우고 하위 요청을 묶음
+   * 마스터 플레이리스트는 가장 높은 화질의 미디어 플레이리스트로 전체 길이 계산
+   */
+  private async inspectHlsPlaylist(tabId: number, stream: DetectedStream) {
+    try {
+      const index = this.getManifestIndex(tabId);
+      const playlist = await fetchHlsPlaylist(stream.url);
+      // 가져오는 동안 다른 마스터 플레이리스트에 묶였거나 페이지가 바뀐 경우
+      if (!this.getStreams(tabId).includes(stream)) return;
+      index.segmentDirs.set(getUrlDirectory(stream.url), stream);
+
+      let media = playlist.kind === 'media' ? playlist : null;
+
+      if (playlist.kind === 'master') {
+        stream.variants = playlist.variants;
+        stream.renditions = playlist.renditions;
+        stream.quality = playlist.variants[0] ? formatVariantQuality(playlist.variants[0]) : stream.quality;
+
+        // 화질별/트랙 플레이리스트는 이 스트림에 묶고, 이미 따로 등록된 항목은 제거
+        const childUrls = [
+          ...playlist.variants.map(v => v.url),
+          ...playlist.renditions.map(r => r.url).filter((url): url is string => !!url)
+        ];
+        childUrls.forEach(url => {
+          index.playlists.set(url, stream);
+          index.segmentDirs.set(getUrlDirectory(url), stream);
+        });
+        this.removeStreams(tabId, childUrls);
+
+        if (playlist.variants[0]) {
+          const variantPlaylist = await fetchHlsPlaylist(playlist.variants[0].url);
+          media = variantPlaylist.kind === 'media' ? variantPlaylist : null;
+        }
+      }
+
+      if (media) {
+        stream.duration = media.isLive ? undefined : media.duration;
+        media.segments.forEach(url => index.segmentDirs.set(getUrlDirectory(url), stream));
+      }
+
+      this.persist(tabId);
+      this.notifyStreamDetected(tabId, stream);
+      console.log('[StreamDetector] HLS playlist parsed:', {
+        tabId,
+        variants: stream.variants?.length || 0,
+        renditions: stream.renditions?.length || 0,
+        duration: stream.duration
+      });
+    } catch (error) {
+      console.log('[StreamDetector] HLS playlist parse failed:', stream.url.substring(0, 80), error);
+    }
+  }
+
+  /**
+   * DASH 매니페스트를 가져와 화질/트랙/길이 정보를 채우고 화질별 파일·세그먼트 요청을 묶음
+   */
+  private async inspectDashManifest(tabId: number, stream: DetectedStream) {
+    try {
+      const index = this.getManifestIndex(tabId);
+      const manifest = await fetchDashManifest(stream.url);
+      if (!this.getStreams(tabId).includes(stream)) return;
+
+      const variants = getDashVariants(manifest, stream.url);
+      stream.variants = variants;
+      stream.renditions = getDashRenditions(manifest);
+      stream.quality = variants[0] ? formatVariantQuality(variants[0]) : stream.quality;
+      stream.duration = manifest.isLive ? undefined : manifest.duration;
+
+      // 화질별 파일(BaseURL)은 이 스트림에 묶고, 이미 따로 등록된 항목은 제거
+      const childUrls = getDashMediaUrls(manifest).filter(url => url !== stream.url);
+      childUrls.forEach(url => index.playlists.set(url, stream));
+      this.removeStreams(tabId, childUrls);
+
+      index.segmentDirs.set(getUrlDirectory(stream.url), stream);
+      getDashSegmentDirectories(manifest).forEach(dir => index.segmentDirs.set(dir, stream));
+
+      this.persist(tabId);
+      this.notifyStreamDetected(tabId, stream);
+      console.log('[StreamDetector] DASH manifest parsed:', {
+        tabId,
+        periods: manifest.periods.length,
+        variants: variants.length,
+        renditions: stream.renditions.length,
+        duration: stream.duration
+      });
+    } catch (error) {
+      console.log('[StreamDetector] DASH manifest parse failed:', stream.url.substring(0, 80), error);
+    }
+  }
+
+  /**
+   * 지정한 URL의 스트림 제거
+   */
+  private removeStreams(tabId: number, urls: string[]) {
+    const existing = this.streams.get(tabId);
+    if (!existing) return;
+    this.streams.set(tabId, existing.filter(s => !urls.includes(s.url)));
   }
 
   /**
@@ -357,6 +606,8 @@ export class StreamDetector {
    */
   clearStreams(tabId: number) {
     this.streams.set(tabId, []);
+    this.manifestIndex.delete(tabId);
+    this.store.remove(tabId);
   }
 
   /**
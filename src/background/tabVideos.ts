@@ -0,0 +1,145 @@
+import type { VideoInfo } from '../types';
+import { TabSessionStore } from './sessionStore';
+
+// 프레임별 감지 결과 (frameId → 비디오 목록, 저장소 키는 문자열)
+type FrameVideos = Record<string, VideoInfo[]>;
+
+/**
+ * URL 비교용 정규화 (해시 제거)
+ */
+function normalizeUrl(url: string): string {
+  return url.split('#')[0];
+}
+
+/**
+ * 중복 판단 키 (플랫폼 ID → 소스 URL → 페이지 URL)
+ */
+function getVideoKey(video: VideoInfo): string {
+  if (video.videoId) return `${video.platform}:${video.videoId}`;
+  return normalizeUrl(video.sourceUrl || video.url);
+}
+
+/**
+ * 상위 프레임의 iframe 항목과 같은 비디오를 실제로 재생하는 하위 프레임 항목인지
+ */
+function isSameEmbeddedVideo(embed: VideoInfo, owner: VideoInfo): boolean {
+  if (embed.videoId && owner.videoId) {
+    return embed.platform === owner.platform && embed.videoId === owner.videoId;
+  }
+  return normalizeUrl(embed.url) === normalizeUrl(owner.url);
+}
+
+/**
+ * 탭의 모든 프레임에서 감지한 비디오를 모아 하나의 목록으로 제공
+ * Content Script는 all_frames로 실행되므로 iframe 안의 플레이어는 해당 프레임이 따로 보고함
+ */
+export class TabVideoRegistry {
+  // 탭별 → 프레임별 비디오 목록
+  private tabs: Map<number, Map<number, VideoInfo[]>> = new Map();
+
+  private store = new TabSessionStore<FrameVideos>('videos');
+
+  // 저장된 목록 복원 완료
+  readonly ready: Promise<void>;
+
+  constructor() {
+    this.ready = this.restore();
+  }
+
+  private async restore() {
+    const restored = await this.store.loadAll();
+    restored.forEach((frames, tabId) => {
+      // 복원 전에 새로 보고된 프레임이 우선
+      const current = this.tabs.get(tabId) || new Map<number, VideoInfo[]>();
+      Object.entries(frames).forEach(([frameId, videos]) => {
+        if (!current.has(Number(frameId))) current.set(Number(frameId), videos);
+      });
+      this.tabs.set(tabId, current);
+    });
+  }
+
+  private persist(tabId: number) {
+    this.store.save(tabId, () => Object.fromEntries(this.tabs.get(tabId) || []));
+  }
+
+  /**
+   * 프레임의 감지 결과 갱신 (빈 목록이면 프레임 제거)
+   */
+  setFrameVideos(tabId: number, frameId: number, videos: VideoInfo[]) {
+    const frames = this.tabs.get(tabId) || new Map<number, VideoInfo[]>();
+    if (videos.length > 0) {
+      frames.set(frameId, videos.map(video => ({ ...video, frameId })));
+    } else {
+      frames.delete(frameId);
+    }
+    this.tabs.set(tabId, frames);
+    this.persist(tabId);
+  }
+
+  /**
+   * 보고한 적이 있는 프레임에 최신 목록 요청 (응답이 없는 프레임은 사라진 것으로 보고 제거)
+   * 새로 생긴 프레임은 감지 후 VIDEO_DETECTED로 직접 보고함
+   */
+  async refresh(tabId: number) {
+    await this.ready;
+    const frames = this.tabs.get(tabId);
+    if (!frames) return;
+
+    await Promise.all([...frames.keys()].map(async frameId => {
+      const response = await chrome.tabs.sendMessage(tabId, { type: 'GET_VIDEO_INFO' }, { frameId }).catch(() => null);
+      this.setFrameVideos(tabId, frameId, Array.isArray(response?.videos) ? response.videos : []);
+    }));
+  }
+
+  /**
+   * 탭 단위로 합친 비디오 목록
+   * - 상위 프레임의 iframe 항목(isEmbed)은 하위 프레임이 보고한 항목으로 대체하고 빈 값만 채움
+   * - 같은 비디오는 한 번만 (먼저 감지된 프레임 우선)
+   */
+  getVideos(tabId: number): VideoInfo[] {
+    const frames = this.tabs.get(tabId);
+    if (!frames) return [];
+
+    const all = [...frames.entries()]
+      .sort(([a], [b]) => a - b)
+      .flatMap(([, videos]) => videos);
+    const owners = all.filter(video => !video.isEmbed);
+    const used = new Set<VideoInfo>();
+    const merged: VideoInfo[] = [];
+
+    for (const video of all) {
+      if (used.has(video)) continue;
+
+      if (video.isEmbed) {
+        const owner = owners.find(candidate => !used.has(candidate) && isSameEmbeddedVideo(video, candidate));
+        if (owner) {
+          used.add(owner);
+          merged.push({ ...video, ...owner, title: owner.title || video.title, isEmbed: undefined });
+          continue;
+        }
+      }
+      used.add(video);
+      merged.push(video);
+    }
+
+    const seen = new Set<string>();
+    return merged.filter(video => {
+      const key = getVideoKey(video);
+      if (seen.has(key)) return false;
+      seen.add(key);
+      return true;
+    });
+  }
+
+  /**
+   * 탭 정보 삭제 (탭 닫힘, 페이지 이동)
+   */
+  clearTab(tabId: number) {
+    this.ready.then(() => {
+      this.tabs.delete(tabId);
+      this.store.remove(tabId);
+    });
+  }
+}
+
+export const tabVideos = new TabVideoRegistry();
@@ -0,0 +1,101 @@
+/**
+ * 비디오 프레임 캡처 공통
+ * 페이지 비디오, 숨은 복제 비디오, 시청 중 캡처가 같은 방식으로 사진을 만듦
+ */
+
+// 캡처한 사진의 최대 크기 (긴 변, px - 비용 절감)
+export const MAX_FRAME_SIZE = 512;
+
+// 캡처한 사진 (changeScore: 장면 전환 샘플링일 때 직전 장면과의 변화 정도)
+export interface CapturedFrame {
+  timestamp: number;
+  imageBase64: string;
+  width: number;
+  height: number;
+  changeScore?: number;
+}
+
+/**
+ * 비디오의 현재 화면을 JPEG로 변환 (교차 출처 비디오면 toDataURL에서 에러)
+ */
+export function drawVideoFrame(
+  video: HTMLVideoElement,
+  canvas: HTMLCanvasElement,
+  ctx: CanvasRenderingContext2D
+): CapturedFrame {
+  // 비디오 크기에 맞게 캔버스 조정 (최대 512px - 비용 절감)
+  const scale = Math.min(1, MAX_FRAME_SIZE / Math.max(video.videoWidth, video.videoHeight));
+  canvas.width = Math.floor(video.videoWidth * scale);
+  canvas.height = Math.floor(video.videoHeight * scale);
+
+  ctx.drawImage(video, 0, 0, canvas.width, canvas.height);
+
+  // Base64로 변환 (JPEG, 품질 0.7)
+  return {
+    timestamp: video.currentTime,
+    imageBase64: canvas.toDataURL('image/jpeg', 0.7).split(',')[1],
+    width: canvas.width,
+    height: canvas.height
+  };
+}
+
+/**
+ * 픽셀을 읽을 수 있는 비디오인지 (교차 출처 비디오는 캔버스가 오염되어 읽을 수 없음)
+ */
+export function isVideoReadable(video: HTMLVideoElement): boolean {
+  const canvas = document.createElement('canvas');
+  canvas.width = 1;
+  canvas.height = 1;
+  const ctx = canvas.getContext('2d');
+  if (!ctx) return false;
+
+  try {
+    ctx.drawImage(video, 0, 0, 1, 1);
+    ctx.getImageData(0, 0, 1, 1);
+    return true;
+  } catch {
+    return false;
+  }
+}
+
+/**
+ * 숨은 복제 비디오 (같은 소스를 따로 불러와 사용자의 재생 위치를 건드리지 않고 이동/캡처)
+ * MSE(blob:) 소스, CORS를 허용하지 않는 소스, 불러오지 못한 소스는 null
+ */
+export async function createCaptureClone(video: HTMLVideoElement): Promise<HTMLVideoElement | null> {
+  const src = video.currentSrc || video.src;
+  if (!/^https?:/.test(src)) return null;
+
+  // 문서에 붙이지 않은 video 요소도 불러오기/이동/그리기가 가능
+  const clone = document.createElement('video');
+  clone.crossOrigin = 'anonymous';
+  clone.muted = true;
+  clone.preload = 'auto';
+
+  const loaded = await new Promise<boolean>(resolve => {
+    const timeout = setTimeout(() => resolve(false), 10000);
+    clone.addEventListener('loadeddata', () => {
+      clearTimeout(timeout);
+      resolve(true);
+    }, { once: true });
+    clone.addEventListener('error', () => {
+      clearTimeout(timeout);
+      resolve(false);
+    }, { once: true });
+    clone.src = src;
+  });
+
+  if (!loaded || !isFinite(clone.duration) || !isVideoReadable(clone)) {
+    releaseCaptureClone(clone);
+    return null;
+  }
+  return clone;
+}
+
+/**
+ * 복제 비디오 정리 (불러온 데이터 해제)
+ */
+export function releaseCaptureClone(clone: HTMLVideoElement) {
+  clone.removeAttribute('src');
+  clone.load();
+}
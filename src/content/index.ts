@@ -1,5 +1,16 @@
 import { VideoDetector } from './videoDetector';
-import type { Message, VideoInfo } from '../types';
+import { getAdapter, getPageAdapter, type PlatformAdapter } from './platforms';
+import { seekVideoElement } from './platforms/base';
+import { findVideoBySource, getHTML5Transcript, hasSubtitleTracks } from './platforms/html5';
+import { findElementByPath, getOpenShadowRoots, querySelectorDeep } from './shadowDom';
+import { scanSceneChanges } from './sceneDetection';
+import { cropScreenshot, getCaptureRect, prepareScreenCapture } from './screenCapture';
+import { createCaptureClone, drawVideoFrame, releaseCaptureClone, MAX_FRAME_SIZE, type CapturedFrame } from './frameCapture';
+import { WatchCapture } from './watchCapture';
+import type { FrameCaptureOptions, Message, VideoInfo, VideoPlatform } from '../types';
+
+// 재생 위치 보고 최소 간격
+const TIME_REPORT_INTERVAL_MS = 1000;
 
 /**
  * Content Script - 웹페이지에서 실행되는 스크립트
@@ -9,6 +20,12 @@ class ContentScript {
   private detector: VideoDetector;
   private detectedVideos: VideoInfo[] = [];
   private lastUrl: string = '';
+  private lastTimeReport: number = 0;
+  private playbackVideo: HTMLVideoElement | null = null; // 재생 위치를 보고하는 비디오 (getPlaybackVideo)
+  private hasReported: boolean = false; // Background에 비디오 목록을 보고한 적이 있는지
+  private domObserver: MutationObserver | null = null;
+  private observedShadowRoots: WeakSet<ShadowRoot> = new WeakSet();
+  private watchCapture: WatchCapture = new WatchCapture();
 
   constructor() {
     this.detector = new VideoDetector();
@@ -32,6 +49,9 @@ class ContentScript {
     // 메시지 리스너 등록
     this.setupMessageListener();
 
+    // 재생 위치 보고 (사이드 패널 목차 동기화)
+    this.observePlayback();
+
     console.log('[Video Summarizer] Content script loaded');
   }
 
@@ -40,16 +60,20 @@ class ContentScript {
    */
   private detectVideos() {
     // 약간의 딜레이 후 감지 (동적 콘텐츠 로딩 대기)
-    setTimeout(() => {
+    setTimeout(async () => {
+      await this.detector.loadOEmbed();
       this.detectedVideos = this.detector.detectAll();
+      this.playbackVideo = null;
+      this.observeShadowRoots();
       
-      if (this.detectedVideos.length > 0) {
+      // 이 프레임의 전체 목록을 Background로 전송 (이전에 보고했다면 빈 목록도 전송해 정리)
+      if (this.detectedVideos.length > 0 || this.hasReported) {
         console.log('[Video Summarizer] Videos detected:', this.detectedVideos.length);
-        
-        // 첫 번째 비디오 정보를 Background로 전송
+        this.hasReported = true;
+
         chrome.runtime.sendMessage({
           type: 'VIDEO_DETECTED',
-          payload: this.detectedVideos[0]
+          payload: this.detectedVideos
         }).catch(() => {
           // Background script가 준비되지 않은 경우 무시
         });
@@ -101,8 +125,9 @@ class ContentScript {
     this.lastUrl = location.href;
     console.log('[Video Summarizer] URL changed, re-detecting videos...');
     
-    // 이전 감지 결과 초기화
+    // 이전 감지 결과 초기화 (SPA는 같은 video 요소로 다음 비디오를 재생하므로 시청 중 캡처한 사진도 삭제)
     this.detectedVideos = [];
+    this.watchCapture.clearFrames();
     
     // 새로운 감지 시작
     this.detectVideos();
@@ -110,18 +135,25 @@ class ContentScript {
 
   /**
    * DOM 변경 감지 (동적 비디오 로딩)
+   * 열린 shadow root도 감지할 때마다 observeShadowRoots로 관찰 대상에 추가
    */
   private observeDomChanges() {
     let debounceTimer: ReturnType<typeof setTimeout>;
     
     const observer = new MutationObserver((mutations) => {
-      // video 태그 추가 확인
+      // video 태그, iframe, 비디오가 든 웹 컴포넌트(shadow DOM 플레이어) 추가 확인
+      // 추가된 요소만 가볍게 확인하고, 하위 shadow root 탐색은 디바운스 후 감지(observeShadowRoots)에서 한 번만
       const hasNewVideo = mutations.some(mutation => {
         return Array.from(mutation.addedNodes).some(node => {
           if (node instanceof HTMLElement) {
+            // 새 shadow root는 바로 관찰 대상에 추가 → 비디오가 나중에 들어와도 감지를 다시 돌리지 않고 알 수 있음
+            if (node.shadowRoot) {
+              this.observeShadowRoot(node.shadowRoot);
+            }
             return node.tagName === 'VIDEO' || 
                    node.querySelector?.('video') !== null ||
-                   node.tagName === 'IFRAME';
+                   node.tagName === 'IFRAME' ||
+                   node.shadowRoot?.querySelector('video') != null;
           }
           return false;
         });
@@ -141,6 +173,63 @@ class ContentScript {
       childList: true,
       subtree: true
     });
+    this.domObserver = observer;
+  }
+
+  /**
+   * 새로 발견한 열린 shadow root 관찰 (비디오 삽입 감지, 재생 위치 수신)
+   * shadow root 안의 변경과 이벤트는 문서 수준에서 보이지 않으므로 root마다 따로 등록
+   */
+  private observeShadowRoots() {
+    getOpenShadowRoots().forEach(root => this.observeShadowRoot(root));
+  }
+
+  private observeShadowRoot(root: ShadowRoot) {
+    if (this.observedShadowRoots.has(root)) return;
+    this.observedShadowRoots.add(root);
+    this.domObserver?.observe(root, { childList: true, subtree: true });
+    this.listenPlayback(root);
+  }
+
+  /**
+   * 재생 위치를 사이드 패널에 보고 (1초 간격으로 제한, 이동 직후에는 즉시)
+   * timeupdate는 버블링되지 않으므로 캡처 단계에서 수신 → 나중에 추가된 비디오도 처리
+   */
+  private observePlayback() {
+    this.listenPlayback(document);
+  }
+
+  private listenPlayback(root: Document | ShadowRoot) {
+    root.addEventListener('timeupdate', (e) => this.reportPlayback(e, false), true);
+    root.addEventListener('seeked', (e) => this.reportPlayback(e, true), true);
+  }
+
+  private reportPlayback(event: Event, immediate: boolean) {
+    const now = Date.now();
+    if (!immediate && now - this.lastTimeReport < TIME_REPORT_INTERVAL_MS) return;
+
+    const video = event.target;
+    if (!(video instanceof HTMLVideoElement) || video !== this.getPlaybackVideo()) return;
+    this.lastTimeReport = now;
+
+    chrome.runtime.sendMessage({
+      type: 'VIDEO_TIME_UPDATE',
+      timeSeconds: getPageAdapter()?.getCurrentTime() ?? video.currentTime,
+      duration: isNaN(video.duration) ? undefined : video.duration
+    }).catch(() => {
+      // 사이드 패널이 닫혀 있으면 무시
+    });
+  }
+
+  /**
+   * 재생 위치를 보고할 비디오
+   * 이벤트마다 shadow DOM까지 찾지 않도록 저장해 두고, 다시 감지하거나 문서에서 빠졌을 때만 새로 찾음
+   */
+  private getPlaybackVideo(): HTMLVideoElement | null {
+    if (!this.playbackVideo?.isConnected) {
+      this.playbackVideo = this.findVideoElement();
+    }
+    return this.playbackVideo;
   }
 
   /**
@@ -162,21 +251,61 @@ class ContentScript {
           });
           break;
 
-        case 'GET_YOUTUBE_TRANSCRIPT':
-          // YouTube 자막 가져오기
-          this.getYouTubeTranscript().then(result => {
+        case 'GET_CAPTION_TRACKS': {
+          // 선택 가능한 자막 트랙 목록 (해당 비디오를 가진 프레임만 응답)
+          const adapter = this.findVideoAdapter(message.platform, message.videoId);
+          if (!adapter?.getCaptionTracks) {
+            return false;
+          }
+          adapter.getCaptionTracks(message.videoId!).then(tracks => {
+            sendResponse({ tracks });
+          }).catch(() => {
+            sendResponse({ tracks: [] });
+          });
+          return true; // 비동기 응답
+        }
+
+        case 'GET_TRANSCRIPT': {
+          // 플랫폼 자막 (YouTube, Vimeo 등 - 해당 비디오를 가진 프레임만 응답)
+          const adapter = this.findVideoAdapter(message.platform, message.videoId);
+          if (!adapter?.getTranscript) {
+            return false;
+          }
+          adapter.getTranscript(message.videoId!, message.caption).then(result => {
+            sendResponse(result);
+          }).catch(error => {
+            console.log(`[Video Summarizer] ${adapter.platform} 자막 추출 실패:`, error);
+            sendResponse({ transcript: null, segments: [] });
+          });
+          return true; // 비동기 응답
+        }
+
+        case 'GET_HTML5_TRANSCRIPT': {
+          // HTML5 비디오 자막 (<track>, textTracks) - 자막이 있는 비디오의 프레임만 응답
+          const video = message.sourceUrl ? findVideoBySource(message.sourceUrl) : this.findVideoElement();
+          if (!video || !hasSubtitleTracks(video)) {
+            // 자막 트랙이 없으면 페이지 JSON-LD의 스크립트(transcript) 사용
+            const structuredTranscript = video ? this.detector.getStructuredTranscript(message.sourceUrl) : undefined;
+            if (!structuredTranscript) {
+              return false;
+            }
+            sendResponse({ transcript: structuredTranscript, segments: [] });
+            break;
+          }
+          getHTML5Transcript(video).then(result => {
             sendResponse(result);
           }).catch(() => {
             sendResponse({ transcript: null, segments: [] });
           });
           return true; // 비동기 응답
+        }
 
         case 'CAPTURE_VIDEO_FRAMES': {
-          // 비디오 프레임 캡처
-          const captureOptions = (message.payload && typeof message.payload === 'object' && !Array.isArray(message.payload))
-            ? message.payload as { videoSelector?: string; intervalSeconds?: number; maxFrames?: number }
-            : {};
-          this.captureVideoFrames(captureOptions).then(result => {
+          // 비디오 프레임 캡처 (요소 경로가 있으면 그 비디오, 비디오가 없는 프레임은 응답하지 않음)
+          if (!this.findVideoElement(undefined, message.elementPath)) {
+            return false;
+          }
+          this.captureVideoFrames({ ...message.capture, elementPath: message.elementPath }).then(result => {
             sendResponse(result);
           }).catch(error => {
             console.error('[Video Summarizer] 프레임 캡처 실패:', error);
@@ -185,6 +314,41 @@ class ContentScript {
           return true; // 비동기 응답
         }
 
+        case 'START_WATCH_CAPTURE': {
+          // 시청하며 캡처 시작 (비디오가 없는 프레임은 응답하지 않음)
+          const video = this.findVideoElement(undefined, message.elementPath);
+          if (!video) {
+            return false;
+          }
+          this.watchCapture.start(video, message.capture?.intervalSeconds);
+          sendResponse({ success: true });
+          break;
+        }
+
+        case 'STOP_WATCH_CAPTURE':
+          // 시청하며 캡처 중지 (캡처 중인 프레임만 응답)
+          if (!this.watchCapture.isActive()) {
+            return false;
+          }
+          this.watchCapture.stop();
+          sendResponse({ success: true });
+          break;
+
+        case 'SEEK_VIDEO': {
+          // 해당 위치로 이동 후 재생 (비디오가 없는 프레임은 응답하지 않음)
+          // 요소 경로가 있으면 그 비디오를 직접 이동 (shadow DOM 안의 플레이어, 여러 비디오가 있는 페이지)
+          const target = message.elementPath ? findElementByPath(message.elementPath) : null;
+          const video = target instanceof HTMLVideoElement ? target : this.findVideoElement();
+          if (!video || message.timeSeconds === undefined) {
+            return false;
+          }
+          if (video === target || !getPageAdapter()?.seek(message.timeSeconds)) {
+            seekVideoElement(video, message.timeSeconds);
+          }
+          sendResponse({ success: true });
+          break;
+        }
+
         default:
           sendResponse({ type: 'ERROR', payload: 'Unknown message type' });
       }
@@ -194,163 +358,29 @@ class ContentScript {
   }
 
   /**
-   * YouTube 자막 추출
-   */
-  private async getYouTubeTranscript(): Promise<{ transcript: string; segments: Array<{ start: number; text: string }> }> {
-    // YouTube 페이지인지 확인
-    if (!window.location.href.includes('youtube.com/watch')) {
-      return { transcript: '', segments: [] };
-    }
-
-    try {
-      // 방법 1: 자막 패널에서 직접 추출 시도
-      const transcriptFromPanel = await this.extractFromTranscriptPanel();
-      if (transcriptFromPanel.transcript) {
-        console.log('[Video Summarizer] 자막 패널에서 추출 성공');
-        return transcriptFromPanel;
-      }
-
-      // 방법 2: ytInitialPlayerResponse에서 자막 URL 추출
-      const transcriptFromPlayer = await this.extractFromPlayerResponse();
-      if (transcriptFromPlayer.transcript) {
-        console.log('[Video Summarizer] Player Response에서 추출 성공');
-        return transcriptFromPlayer;
-      }
-
-      console.log('[Video Summarizer] 자막을 찾을 수 없습니다');
-      return { transcript: '', segments: [] };
-    } catch (error) {
-      console.error('[Video Summarizer] 자막 추출 실패:', error);
-      return { transcript: '', segments: [] };
-    }
-  }
-
-  /**
-   * 자막 패널에서 직접 추출
+   * 해당 비디오의 자막을 가져올 수 있는 어댑터 (이 프레임에 없는 비디오면 undefined)
    */
-  private async extractFromTranscriptPanel(): Promise<{ transcript: string; segments: Array<{ start: number; text: string }> }> {
-    // 이미 열려있는 자막 패널 찾기
-    const transcriptPanel = document.querySelector('ytd-transcript-renderer, ytd-engagement-panel-section-list-renderer[target-id="engagement-panel-searchable-transcript"]');
-    
-    if (!transcriptPanel) {
-      return { transcript: '', segments: [] };
-    }
-
-    // 자막 세그먼트 추출
-    const segments: Array<{ start: number; text: string }> = [];
-    const segmentElements = transcriptPanel.querySelectorAll('ytd-transcript-segment-renderer, yt-formatted-string.segment-text');
-    
-    segmentElements.forEach(el => {
-      const timeEl = el.querySelector('.segment-timestamp, [class*="timestamp"]');
-      const textEl = el.querySelector('.segment-text, yt-formatted-string');
-      
-      if (textEl?.textContent) {
-        const timeText = timeEl?.textContent?.trim() || '0:00';
-        const timeParts = timeText.split(':').map(Number);
-        const startSeconds = timeParts.length === 3 
-          ? timeParts[0] * 3600 + timeParts[1] * 60 + timeParts[2]
-          : timeParts[0] * 60 + (timeParts[1] || 0);
-        
-        segments.push({
-          start: startSeconds,
-          text: textEl.textContent.trim()
-        });
-      }
-    });
-
-    const transcript = segments.map(s => `[${this.formatTime(s.start)}] ${s.text}`).join('\n');
-    return { transcript, segments };
+  private findVideoAdapter(platform?: VideoPlatform, videoId?: string): PlatformAdapter | undefined {
+    if (!platform || !videoId) return undefined;
+    const adapter = getAdapter(platform);
+    return adapter?.ownsVideo(videoId) ? adapter : undefined;
   }
 
   /**
-   * ytInitialPlayerResponse에서 자막 추출
+   * 비디오 프레임(사진) 캡처 (사용자의 재생을 방해하지 않는 방법부터)
+   * 1. 숨은 복제 비디오: 같은 소스를 따로 불러와 이동/캡처 (CORS를 허용하는 일반 비디오 파일)
+   * 2. 시청하며 캡처로 모아 둔 사진 (YouTube 등 스트리밍 비디오, 실시간 방송)
+   * 3. 페이지 비디오를 멈추고 이동하며 캡처 (allowSeek: 사용자가 허용한 경우만)
+   *    CORS 문제로 Canvas 캡처가 막히면 chrome.tabs.captureVisibleTab API를 사용하여 화면 캡처로 대체
    */
-  private async extractFromPlayerResponse(): Promise<{ transcript: string; segments: Array<{ start: number; text: string }> }> {
-    try {
-      // 페이지 스크립트에서 자막 데이터 찾기
-      const scripts = document.querySelectorAll('script');
-      let captionUrl = '';
-
-      for (const script of scripts) {
-        const content = script.textContent || '';
-        
-        // 자막 URL 패턴 찾기
-        const captionMatch = content.match(/"captionTracks":\s*\[(.*?)\]/s);
-        if (captionMatch) {
-          const urlMatch = captionMatch[1].match(/"baseUrl":\s*"([^"]+)"/);
-          if (urlMatch) {
-            captionUrl = urlMatch[1].replace(/\\u0026/g, '&');
-            break;
-          }
-        }
-      }
-
-      if (!captionUrl) {
-        return { transcript: '', segments: [] };
-      }
-
-      // 자막 XML 가져오기
-      const response = await fetch(captionUrl);
-      const xml = await response.text();
-      
-      // XML 파싱
-      const parser = new DOMParser();
-      const doc = parser.parseFromString(xml, 'text/xml');
-      const textElements = doc.querySelectorAll('text');
-      
-      const segments: Array<{ start: number; text: string }> = [];
-      
-      textElements.forEach(el => {
-        const start = parseFloat(el.getAttribute('start') || '0');
-        const text = el.textContent?.replace(/&#(\d+);/g, (_, code) => String.fromCharCode(parseInt(code)))
-          .replace(/&amp;/g, '&')
-          .replace(/&lt;/g, '<')
-          .replace(/&gt;/g, '>')
-          .replace(/&quot;/g, '"')
-          .replace(/\n/g, ' ')
-          .trim() || '';
-        
-        if (text) {
-          segments.push({ start, text });
-        }
-      });
-
-      const transcript = segments.map(s => `[${this.formatTime(s.start)}] ${s.text}`).join('\n');
-      return { transcript, segments };
-    } catch (error) {
-      console.error('[Video Summarizer] Player Response 파싱 실패:', error);
-      return { transcript: '', segments: [] };
-    }
-  }
-
-  /**
-   * 비디오 프레임(사진) 캡처
-   * CORS 문제로 인해 YouTube 등 외부 비디오는 캡처가 제한될 수 있음
-   * 이 경우 chrome.tabs.captureVisibleTab API를 사용하여 화면 캡처로 대체
-   */
-  private async captureVideoFrames(options: {
+  private async captureVideoFrames(options: FrameCaptureOptions & {
     videoSelector?: string;
-    intervalSeconds?: number;
-    maxFrames?: number;
-  }): Promise<{ frames: Array<{ timestamp: number; imageBase64: string; width: number; height: number }>; duration: number }> {
-    const { intervalSeconds = 30, maxFrames = 10 } = options;
+    elementPath?: string[];
+  }): Promise<{ frames: CapturedFrame[]; duration: number; needsSeekConsent?: boolean }> {
+    const { maxFrames = 10, allowSeek = false } = options;
 
     // 비디오 엘리먼트 찾기
-    let video: HTMLVideoElement | null = null;
-    
-    if (options.videoSelector) {
-      video = document.querySelector(options.videoSelector);
-    }
-    
-    if (!video) {
-      // YouTube 비디오
-      video = document.querySelector('video.html5-main-video, video.video-stream');
-    }
-    
-    if (!video) {
-      // 일반 비디오
-      video = document.querySelector('video');
-    }
+    const video = this.findVideoElement(options.videoSelector, options.elementPath);
 
     if (!video) {
       throw new Error('비디오 엘리먼트를 찾을 수 없습니다');
@@ -373,6 +403,36 @@ class ContentScript {
       throw new Error('비디오 길이를 가져올 수 없습니다');
     }
 
+    // 1. 숨은 복제 비디오 (실시간 방송은 이동할 수 없어 제외)
+    const clone = isFinite(duration) ? await createCaptureClone(video) : null;
+    if (clone) {
+      try {
+        const frames = await this.captureTimeline(clone, options, false);
+        if (frames.length > 0) {
+          console.log(`[Video Summarizer] 복제 비디오에서 ${frames.length}개 사진 캡처 완료`);
+          return { frames, duration };
+        }
+      } finally {
+        releaseCaptureClone(clone);
+      }
+    }
+
+    // 2. 시청하며 캡처한 사진
+    const watched = this.watchCapture.getFrames(video, maxFrames);
+    if (watched.length > 0) {
+      console.log(`[Video Summarizer] 시청 중 캡처한 사진 ${watched.length}개 사용`);
+      return { frames: watched, duration: isFinite(duration) ? duration : video.currentTime };
+    }
+
+    if (!isFinite(duration)) {
+      throw new Error('실시간 방송은 "시청하며 캡처"를 켜고 재생한 뒤 분석할 수 있습니다');
+    }
+
+    // 3. 페이지 비디오를 이동하며 캡처 (재생이 방해되므로 허용한 경우만)
+    if (!allowSeek) {
+      return { frames: [], duration, needsSeekConsent: true };
+    }
+
     // 현재 재생 위치 저장
     const originalTime = video.currentTime;
     const wasPlaying = !video.paused;
@@ -381,16 +441,56 @@ class ContentScript {
       video.pause();
     }
 
-    // 캡처할 시간 포인트 계산
+    const frames = await this.captureTimeline(video, options, true);
+
+    // 원래 위치로 복원
+    video.currentTime = originalTime;
+    if (wasPlaying) {
+      video.play().catch(() => {});
+    }
+
+    console.log(`[Video Summarizer] ${frames.length}개 사진 캡처 완료`);
+    return { frames, duration };
+  }
+
+  /**
+   * 비디오를 이동하며 사진 캡처 (장면 전환 지점 또는 고정 간격)
+   * @param allowScreenCapture Canvas 캡처가 막혔을 때 화면 캡처로 대체 (화면에 보이는 비디오만)
+   */
+  private async captureTimeline(
+    video: HTMLVideoElement,
+    options: FrameCaptureOptions,
+    allowScreenCapture: boolean
+  ): Promise<CapturedFrame[]> {
+    const { intervalSeconds = 30, maxFrames = 10, sampling = 'interval', minSpacingSeconds = 10 } = options;
+    const duration = video.duration;
+
+    // 캡처할 시간 포인트 계산 (장면 전환 지점 → 고정 간격)
     const capturePoints: number[] = [];
-    const totalFrames = Math.min(maxFrames, Math.ceil(duration / intervalSeconds));
-    
-    for (let i = 0; i < totalFrames; i++) {
-      const time = ((i + 0.5) * duration) / totalFrames;
-      capturePoints.push(time);
+    const changeScores = new Map<number, number>();
+
+    if (sampling === 'scene') {
+      try {
+        const changes = await scanSceneChanges(video, time => this.seekToTime(video, time), { maxFrames, minSpacingSeconds });
+        changes.forEach(change => {
+          capturePoints.push(change.time);
+          changeScores.set(change.time, change.score);
+        });
+      } catch (error) {
+        // 교차 출처 비디오는 픽셀을 읽을 수 없음 → 고정 간격으로 대체
+        console.log('[Video Summarizer] 장면 전환 감지 실패, 고정 간격으로 캡처:', error);
+      }
+    }
+
+    if (capturePoints.length === 0) {
+      const totalFrames = Math.min(maxFrames, Math.ceil(duration / intervalSeconds));
+      for (let i = 0; i < totalFrames; i++) {
+        const time = ((i + 0.5) * duration) / totalFrames;
+        capturePoints.push(time);
+      }
     }
 
-    const frames: Array<{ timestamp: number; imageBase64: string; width: number; height: number }> = [];
+    const frames: CapturedFrame[] = [];
 
     // 먼저 Canvas 방식 시도
     const canvas = document.createElement('canvas');
@@ -402,18 +502,21 @@ class ContentScript {
         try {
           const frame = await this.captureFrameAtTime(video, canvas, ctx, time);
           if (frame) {
-            frames.push(frame);
+            frames.push({ ...frame, changeScore: changeScores.get(time) });
           }
         } catch {
-          console.log(`[Video Summarizer] Canvas 캡처 실패 (${time}s), 화면 캡처로 전환`);
+          console.log(`[Video Summarizer] Canvas 캡처 실패 (${time}s)${allowScreenCapture ? ', 화면 캡처로 전환' : ''}`);
           break; // CORS 에러 발생 시 화면 캡처로 전환
         }
       }
     }
 
     // Canvas 캡처가 실패했으면 화면 캡처 방식 사용
-    if (frames.length === 0) {
+    if (frames.length === 0 && allowScreenCapture) {
       console.log('[Video Summarizer] 화면 캡처 방식으로 전환');
+
+      // 비디오를 화면 안으로 옮기고 겹친 컨트롤 숨김 (캡처 후 복원)
+      const restoreScreen = await prepareScreenCapture(video);
       
       for (const time of capturePoints) {
         try {
@@ -423,34 +526,59 @@ class ContentScript {
           // 잠시 대기 (렌더링 시간)
           await new Promise(resolve => setTimeout(resolve, 300));
           
-          // Background script를 통해 화면 캡처 요청
+          // Background script를 통해 화면 캡처 요청 (캡처 시점의 비디오 영역 기준으로 자름)
+          const rect = getCaptureRect(video);
           const response = await chrome.runtime.sendMessage({
             type: 'CAPTURE_SCREEN'
           });
           
           if (response?.imageData) {
-            // 비디오 영역만 크롭 (간단히 전체 화면 사용)
+            // 비디오 영역만 크롭 (위치를 알 수 없는 교차 출처 iframe은 전체 화면)
+            const image = await cropScreenshot(response.imageData, rect, MAX_FRAME_SIZE);
             frames.push({
               timestamp: time,
-              imageBase64: response.imageData.split(',')[1] || response.imageData,
-              width: 1280,
-              height: 720
+              ...image,
+              changeScore: changeScores.get(time)
             });
           }
         } catch (error) {
           console.error(`[Video Summarizer] 화면 캡처 실패 (${time}s):`, error);
         }
       }
+
+      restoreScreen();
     }
 
-    // 원래 위치로 복원
-    video.currentTime = originalTime;
-    if (wasPlaying) {
-      video.play().catch(() => {});
+    return frames;
+  }
+
+  /**
+   * 페이지의 비디오 엘리먼트 찾기 (요소 경로 → 지정한 selector → 플랫폼 플레이어 → 첫 번째 video)
+   * shadow DOM 안의 비디오도 포함
+   */
+  private findVideoElement(videoSelector?: string, elementPath?: string[]): HTMLVideoElement | null {
+    let video: HTMLVideoElement | null = null;
+
+    if (elementPath) {
+      const element = findElementByPath(elementPath);
+      video = element instanceof HTMLVideoElement ? element : null;
+    }
+    
+    if (!video && videoSelector) {
+      video = querySelectorDeep<HTMLVideoElement>(videoSelector);
+    }
+    
+    if (!video) {
+      // YouTube 등 플랫폼 플레이어의 메인 비디오
+      video = getPageAdapter()?.findVideo() || null;
+    }
+    
+    if (!video) {
+      // 일반 비디오 (shadow DOM 포함)
+      video = querySelectorDeep<HTMLVideoElement>('video');
     }
 
-    console.log(`[Video Summarizer] ${frames.length}개 사진 캡처 완료`);
-    return { frames, duration };
+    return video;
   }
 
   /**
@@ -481,31 +609,14 @@ class ContentScript {
     canvas: HTMLCanvasElement,
     ctx: CanvasRenderingContext2D,
     time: number
-  ): Promise<{ timestamp: number; imageBase64: string; width: number; height: number } | null> {
+  ): Promise<CapturedFrame | null> {
     return new Promise((resolve, reject) => {
       const onSeeked = () => {
         video.removeEventListener('seeked', onSeeked);
         
         try {
-          // 비디오 크기에 맞게 캔버스 조정 (최대 512px - 비용 절감)
-          const scale = Math.min(1, 512 / Math.max(video.videoWidth, video.videoHeight));
-          canvas.width = Math.floor(video.videoWidth * scale);
-          canvas.height = Math.floor(video.videoHeight * scale);
-          
-          // 프레임 그리기
-          ctx.drawImage(video, 0, 0, canvas.width, canvas.height);
-          
-          // Base64로 변환 (JPEG, 품질 0.7)
           // CORS 에러는 여기서 발생 (toDataURL 호출 시)
-          const dataUrl = canvas.toDataURL('image/jpeg', 0.7);
-          const base64 = dataUrl.split(',')[1];
-          
-          resolve({
-            timestamp: time,
-            imageBase64: base64,
-            width: canvas.width,
-            height: canvas.height
-          });
+          resolve({ ...drawVideoFrame(video, canvas, ctx), timestamp: time });
         } catch (error) {
           // CORS 에러 등 발생
           reject(error);
@@ -523,15 +634,6 @@ class ContentScript {
     });
   }
 
-  /**
-   * 초를 MM:SS 형식으로 변환
-   */
-  private formatTime(seconds: number): string {
-    const mins = Math.floor(seconds / 60);
-    const secs = Math.floor(seconds % 60);
-    return `${mins}:${secs.toString().padStart(2, '0')}`;
-  }
-
   /**
    * 감지된 비디오 목록 반환
    */
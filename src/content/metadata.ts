@@ -0,0 +1,192 @@
+/**
+ * 페이지 구조화 데이터에서 비디오 메타데이터 읽기
+ * JSON-LD(schema.org VideoObject), Open Graph(og:video*), oEmbed 발견 링크
+ *
+ * 병합 우선순위 (mergeVideoMetadata)
+ * - 제목: 플랫폼 어댑터 > JSON-LD > oEmbed > Open Graph > 주변 제목 요소/페이지 제목
+ * - 길이: 비디오 요소 실측값 > JSON-LD > Open Graph
+ * - 썸네일, 작성자, 설명: 플랫폼 어댑터 > JSON-LD > oEmbed > Open Graph
+ */
+
+import { getMetaContent } from './platforms/base';
+import { parseISODuration } from '../services/chunking';
+import type { VideoInfo } from '../types';
+
+export interface PageVideoMetadata {
+  title?: string;
+  description?: string;
+  duration?: number;      // 초
+  thumbnailUrl?: string;
+  uploadDate?: string;
+  author?: string;
+  transcript?: string;
+  contentUrl?: string;    // 비디오 파일 URL
+  embedUrl?: string;      // 플레이어 URL
+}
+
+// oEmbed 응답 (https://oembed.com)
+export interface OEmbedResponse {
+  type?: string;
+  title?: string;
+  author_name?: string;
+  thumbnail_url?: string;
+  duration?: number;      // 일부 제공자(Vimeo 등)만 포함
+}
+
+type JsonLdNode = Record<string, unknown>;
+
+// 중첩 탐색 깊이 제한 (Article.video, ItemList.itemListElement 등)
+const MAX_JSON_LD_DEPTH = 6;
+
+/**
+ * 문자열, 배열, { url | name } 객체에서 첫 문자열 값
+ */
+function readString(value: unknown): string | undefined {
+  if (typeof value === 'string') return value.trim() || undefined;
+  if (Array.isArray(value)) return value.map(readString).find(Boolean);
+  if (value && typeof value === 'object') {
+    const node = value as JsonLdNode;
+    return readString(node.url) || readString(node.name) || readString(node.contentUrl);
+  }
+  return undefined;
+}
+
+/**
+ * 작성자 이름 (문자열, Person/Organization 객체, 배열)
+ */
+function readName(value: unknown): string | undefined {
+  if (typeof value === 'string') return value.trim() || undefined;
+  if (Array.isArray(value)) return value.map(readName).find(Boolean);
+  if (value && typeof value === 'object') return readString((value as JsonLdNode).name);
+  return undefined;
+}
+
+function isVideoObject(node: JsonLdNode): boolean {
+  const type = node['@type'];
+  return (Array.isArray(type) ? type : [type]).includes('VideoObject');
+}
+
+function collectVideoObjects(value: unknown, found: JsonLdNode[], depth: number = 0) {
+  if (!value || typeof value !== 'object' || depth > MAX_JSON_LD_DEPTH) return;
+  if (Array.isArray(value)) {
+    value.forEach(item => collectVideoObjects(item, found, depth + 1));
+    return;
+  }
+
+  const node = value as JsonLdNode;
+  if (isVideoObject(node)) {
+    found.push(node);
+    return;
+  }
+  Object.values(node).forEach(child => collectVideoObjects(child, found, depth + 1));
+}
+
+/**
+ * JSON-LD VideoObject 목록
+ */
+export function readJsonLdVideos(): PageVideoMetadata[] {
+  const nodes: JsonLdNode[] = [];
+  document.querySelectorAll('script[type="application/ld+json"]').forEach(script => {
+    try {
+      collectVideoObjects(JSON.parse(script.textContent || 'null'), nodes);
+    } catch {
+      // 잘못된 JSON-LD는 무시
+    }
+  });
+
+  return nodes.map(node => ({
+    title: readString(node.name),
+    description: readString(node.description),
+    duration: parseISODuration(readString(node.duration)),
+    thumbnailUrl: readString(node.thumbnailUrl) || readString(node.thumbnail),
+    uploadDate: readString(node.uploadDate),
+    author: readName(node.author) || readName(node.creator),
+    transcript: readString(node.transcript),
+    contentUrl: readString(node.contentUrl),
+    embedUrl: readString(node.embedUrl)
+  }));
+}
+
+/**
+ * Open Graph 비디오 정보 (og:type이 video.* 이거나 og:video가 있을 때만)
+ */
+export function readOpenGraphVideo(): PageVideoMetadata | null {
+  const videoUrl = getMetaContent('og:video:secure_url') || getMetaContent('og:video:url') || getMetaContent('og:video');
+  const isVideoPage = getMetaContent('og:type')?.startsWith('video') ?? false;
+  if (!videoUrl && !isVideoPage) return null;
+
+  const duration = Number(getMetaContent('video:duration') || getMetaContent('og:video:duration'));
+  return {
+    title: getMetaContent('og:title'),
+    description: getMetaContent('og:description'),
+    duration: duration > 0 ? duration : undefined,
+    thumbnailUrl: getMetaContent('og:image'),
+    uploadDate: getMetaContent('video:release_date'),
+    contentUrl: videoUrl
+  };
+}
+
+/**
+ * oEmbed 발견 링크 (<link rel="alternate" type="application/json+oembed">)
+ */
+export function findOEmbedUrl(): string | undefined {
+  const link = document.querySelector<HTMLLinkElement>('link[type="application/json+oembed"]');
+  return link?.href || undefined;
+}
+
+export function toOEmbedMetadata(data: OEmbedResponse): PageVideoMetadata | null {
+  if (data.type && data.type !== 'video' && data.type !== 'rich') return null;
+  return {
+    title: data.title?.trim() || undefined,
+    duration: data.duration && data.duration > 0 ? data.duration : undefined,
+    thumbnailUrl: data.thumbnail_url,
+    author: data.author_name
+  };
+}
+
+/**
+ * URL 비교용 정규화 (쿼리, 해시 제거)
+ */
+function normalizeUrl(url?: string): string | undefined {
+  if (!url) return undefined;
+  try {
+    const parsed = new URL(url, window.location.href);
+    return `${parsed.origin}${parsed.pathname}`;
+  } catch {
+    return undefined;
+  }
+}
+
+/**
+ * 비디오에 해당하는 메타데이터인지 (파일/플레이어 URL 또는 플랫폼 ID 일치)
+ */
+export function matchesVideo(metadata: PageVideoMetadata, info: VideoInfo): boolean {
+  const metadataUrls = [metadata.contentUrl, metadata.embedUrl].map(normalizeUrl).filter(Boolean);
+  const videoUrls = [info.sourceUrl, info.url].map(normalizeUrl).filter(Boolean);
+  if (metadataUrls.some(url => videoUrls.includes(url))) return true;
+  return !!info.videoId && [metadata.contentUrl, metadata.embedUrl].some(url => url?.includes(info.videoId!));
+}
+
+/**
+ * 메타데이터를 VideoInfo에 병합
+ * @param sources 우선순위 순 (JSON-LD → oEmbed → Open Graph)
+ * @param hasReliableTitle 플랫폼 어댑터처럼 제목을 직접 확인한 경우 true (HTML5의 추정 제목은 false)
+ */
+export function mergeVideoMetadata(
+  info: VideoInfo,
+  sources: PageVideoMetadata[],
+  hasReliableTitle: boolean
+): VideoInfo {
+  const pick = <K extends keyof PageVideoMetadata>(key: K) =>
+    sources.map(source => source[key]).find(value => value !== undefined && value !== '');
+
+  return {
+    ...info,
+    title: hasReliableTitle ? info.title || pick('title') : pick('title') || info.title,
+    duration: info.duration || pick('duration'),
+    thumbnailUrl: info.thumbnailUrl || pick('thumbnailUrl'),
+    author: info.author || pick('author'),
+    description: info.description || pick('description'),
+    uploadDate: info.uploadDate || pick('uploadDate')
+  };
+}
@@ -0,0 +1,50 @@
+/**
+ * 페이지 스크립트에 포함된 JSON 데이터 읽기
+ * Content Script는 페이지의 window 변수에 접근할 수 없으므로 인라인 <script> 내용을 직접 파싱
+ */
+
+/**
+ * start 위치의 '[' 또는 '{'부터 짝이 맞는 괄호까지 잘라냄 (문자열 안의 괄호는 무시)
+ */
+export function extractJsonBlock(text: string, start: number): string | null {
+  if (start < 0 || (text[start] !== '[' && text[start] !== '{')) return null;
+
+  let depth = 0;
+  let inString = false;
+  for (let i = start; i < text.length; i++) {
+    const char = text[i];
+    if (inString) {
+      if (char === '\\') i++;
+      else if (char === '"') inString = false;
+      continue;
+    }
+    if (char === '"') inString = true;
+    else if (char === '[' || char === '{') depth++;
+    else if (char === ']' || char === '}') {
+      depth--;
+      if (depth === 0) return text.substring(start, i + 1);
+    }
+  }
+  return null;
+}
+
+/**
+ * 인라인 스크립트에서 marker 뒤에 오는 JSON 객체 파싱 (예: "window.playerConfig =")
+ */
+export function findInlineJson<T>(marker: string): T | null {
+  for (const script of document.querySelectorAll('script')) {
+    const content = script.textContent || '';
+    const markerIndex = content.indexOf(marker);
+    if (markerIndex === -1) continue;
+
+    const json = extractJsonBlock(content, content.indexOf('{', markerIndex + marker.length));
+    if (!json) continue;
+
+    try {
+      return JSON.parse(json) as T;
+    } catch {
+      // 자바스크립트 객체 리터럴 등 JSON이 아니면 다음 스크립트 확인
+    }
+  }
+  return null;
+}
@@ -0,0 +1,84 @@
+import { querySelectorDeep } from '../shadowDom';
+import type { VideoInfo, VideoPlatform } from '../../types';
+import type { PlatformAdapter } from './types';
+
+/**
+ * 메타 태그 값 (og:title 등 property, name 모두 확인)
+ */
+export function getMetaContent(key: string): string | undefined {
+  const meta = document.querySelector<HTMLMetaElement>(`meta[property="${key}"], meta[name="${key}"]`);
+  return meta?.content?.trim() || undefined;
+}
+
+/**
+ * "1:02:03" / "2:03" 형식의 시간 문자열을 초 단위로 변환
+ */
+export function parseClockTime(value: string): number {
+  const parts = value.split(':').map(Number);
+  if (parts.length === 3) {
+    return parts[0] * 3600 + parts[1] * 60 + parts[2];
+  } else if (parts.length === 2) {
+    return parts[0] * 60 + parts[1];
+  }
+  return 0;
+}
+
+/**
+ * 특정 시간으로 이동 후 재생
+ * YouTube 등 대부분의 플레이어도 내부 video 엘리먼트의 currentTime 변경으로 이동됨
+ */
+export function seekVideoElement(video: HTMLVideoElement, time: number) {
+  const target = video.duration && !isNaN(video.duration)
+    ? Math.min(Math.max(0, time), video.duration)
+    : Math.max(0, time);
+
+  video.currentTime = target;
+  video.play().catch(error => {
+    // 자동 재생 정책 등으로 재생이 막혀도 이동은 유지
+    console.log('[Video Summarizer] 재생 실패:', error);
+  });
+  console.log(`[Video Summarizer] ${target}초로 이동`);
+}
+
+/**
+ * 어댑터 공통 구현
+ * 재생 제어는 페이지의 video 엘리먼트를 직접 사용 (플레이어별 selector만 지정)
+ */
+export abstract class BasePlatformAdapter implements PlatformAdapter {
+  abstract readonly platform: VideoPlatform;
+
+  // 플레이어의 메인 video 엘리먼트
+  protected videoSelector = 'video';
+
+  abstract matchUrl(url: string): boolean;
+  abstract getVideoId(url: string): string | null;
+  abstract detect(): VideoInfo[];
+
+  ownsVideo(videoId: string): boolean {
+    const url = window.location.href;
+    return this.matchUrl(url) && this.getVideoId(url) === videoId;
+  }
+
+  findVideo(): HTMLVideoElement | null {
+    return document.querySelector<HTMLVideoElement>(this.videoSelector) || querySelectorDeep<HTMLVideoElement>('video');
+  }
+
+  seek(time: number): boolean {
+    const video = this.findVideo();
+    if (!video) return false;
+    seekVideoElement(video, time);
+    return true;
+  }
+
+  getCurrentTime(): number | undefined {
+    return this.findVideo()?.currentTime;
+  }
+
+  /**
+   * 재생 중인 비디오의 길이 (메타데이터 로드 전이면 undefined)
+   */
+  protected getVideoDuration(): number | undefined {
+    const duration = this.findVideo()?.duration;
+    return duration && isFinite(duration) ? duration : undefined;
+  }
+}
@@ -0,0 +1,53 @@
+/**
+ * Coursera 강의 어댑터
+ * 강의 플레이어의 <track> 자막(subtitleAssetProxy VTT)을 사용
+ */
+
+import { BasePlatformAdapter } from './base';
+import { getHTML5CaptionTracks, getHTML5Transcript } from './html5';
+import type { CaptionSelection, CaptionTrack, VideoInfo } from '../../types';
+import type { PlatformTranscript } from './types';
+
+export class CourseraAdapter extends BasePlatformAdapter {
+  readonly platform = 'coursera' as const;
+
+  matchUrl(url: string): boolean {
+    return url.includes('coursera.org') && this.getVideoId(url) !== null;
+  }
+
+  /**
+   * 강의 항목 ID 추출 (coursera.org/learn/{course}/lecture/{itemId}/{slug})
+   */
+  getVideoId(url: string): string | null {
+    const match = url.match(/coursera\.org\/learn\/[\w-]+\/lecture\/([\w-]+)/);
+    return match ? match[1] : null;
+  }
+
+  detect(): VideoInfo[] {
+    const url = window.location.href;
+    const videoId = this.getVideoId(url);
+    if (!videoId) return [];
+
+    const title = document.querySelector('h1')?.textContent?.trim() || document.title.replace(/ \| Coursera$/, '');
+    return [{
+      platform: 'coursera',
+      videoId,
+      title,
+      duration: this.getVideoDuration(),
+      url
+    }];
+  }
+
+  async getCaptionTracks(): Promise<CaptionTrack[]> {
+    const video = this.findVideo();
+    return video ? getHTML5CaptionTracks(video) : [];
+  }
+
+  async getTranscript(_videoId: string, selection?: CaptionSelection): Promise<PlatformTranscript> {
+    const video = this.findVideo();
+    if (!video) {
+      throw new Error('강의 비디오를 찾을 수 없습니다');
+    }
+    return getHTML5Transcript(video, selection);
+  }
+}
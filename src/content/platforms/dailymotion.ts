@@ -0,0 +1,94 @@
+/**
+ * Dailymotion 어댑터
+ * 플레이어 메타데이터 API(/player/metadata/video/{id})의 subtitles에서 VTT 자막을 가져옴
+ */
+
+import { BasePlatformAdapter, getMetaContent } from './base';
+import { selectCaptionTrack } from '../../services/captions';
+import { parseSubtitles, segmentsToTranscript } from '../../services/subtitles';
+import type { CaptionSelection, CaptionTrack, VideoInfo } from '../../types';
+import type { PlatformTranscript } from './types';
+
+// 플레이어 메타데이터 응답 중 자막 부분
+interface DailymotionMetadata {
+  subtitles?: {
+    enable?: boolean;
+    data?: Record<string, { label?: string; urls?: string[] }>;
+  };
+}
+
+export class DailymotionAdapter extends BasePlatformAdapter {
+  readonly platform = 'dailymotion' as const;
+
+  matchUrl(url: string): boolean {
+    return (url.includes('dailymotion.com') || url.includes('dai.ly')) && this.getVideoId(url) !== null;
+  }
+
+  /**
+   * 비디오 ID 추출 (dailymotion.com/video/x8abc, dai.ly/x8abc, embed, geo 플레이어 ?video=)
+   */
+  getVideoId(url: string): string | null {
+    const match = url.match(/dailymotion\.com\/(?:embed\/)?video\/([a-z0-9]+)/i)
+      || url.match(/dai\.ly\/([a-z0-9]+)/i)
+      || url.match(/dailymotion\.com\/player\/.*[?&]video=([a-z0-9]+)/i);
+    return match ? match[1] : null;
+  }
+
+  detect(): VideoInfo[] {
+    const url = window.location.href;
+    const videoId = this.getVideoId(url);
+    if (!videoId) return [];
+
+    return [{
+      platform: 'dailymotion',
+      videoId,
+      title: getMetaContent('og:title') || document.title.replace(/ - Dailymotion$/i, ''),
+      duration: Number(getMetaContent('video:duration')) || this.getVideoDuration(),
+      url,
+      thumbnailUrl: getMetaContent('og:image') || `https://www.dailymotion.com/thumbnail/video/${videoId}`
+    }];
+  }
+
+  detectEmbed(src: string, iframe: HTMLIFrameElement): VideoInfo | null {
+    if (!src.includes('dailymotion.com')) return null;
+    const videoId = this.getVideoId(src);
+    if (!videoId) return null;
+
+    return {
+      platform: 'dailymotion',
+      videoId,
+      title: iframe.title || 'Dailymotion 비디오',
+      url: src,
+      thumbnailUrl: `https://www.dailymotion.com/thumbnail/video/${videoId}`
+    };
+  }
+
+  async getCaptionTracks(videoId: string): Promise<CaptionTrack[]> {
+    const response = await fetch(`https://www.dailymotion.com/player/metadata/video/${videoId}`);
+    if (!response.ok) return [];
+
+    const metadata: DailymotionMetadata = await response.json();
+    return Object.entries(metadata.subtitles?.data || {})
+      .filter(([, subtitle]) => subtitle.urls?.length)
+      .map(([languageCode, subtitle]) => ({
+        baseUrl: subtitle.urls![0],
+        languageCode,
+        name: subtitle.label || languageCode
+      }));
+  }
+
+  async getTranscript(videoId: string, selection?: CaptionSelection): Promise<PlatformTranscript> {
+    const selected = selectCaptionTrack(await this.getCaptionTracks(videoId), selection);
+    if (!selected) {
+      throw new Error('Dailymotion 자막 트랙이 없습니다');
+    }
+
+    const response = await fetch(selected.track.baseUrl);
+    if (!response.ok) {
+      throw new Error(`Dailymotion 자막을 가져올 수 없습니다 (${response.status})`);
+    }
+
+    const segments = parseSubtitles(await response.text());
+    return { transcript: segmentsToTranscript(segments), segments, language: selected.track.languageCode };
+  }
+}
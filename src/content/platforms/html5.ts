@@ -0,0 +1,132 @@
+/**
+ * 일반 HTML5 비디오 자막 (<track> WebVTT/SRT, textTracks)
+ * 강의 사이트 등 자체 플레이어와 Coursera, Loom 어댑터에서 공통 사용
+ */
+
+import { getPreferredLanguage, selectCaptionTrack } from '../../services/captions';
+import { normalizeCues, parseSubtitles, segmentsToTranscript } from '../../services/subtitles';
+import { querySelectorAllDeep } from '../shadowDom';
+import type { CaptionSelection, CaptionTrack } from '../../types';
+import type { PlatformTranscript } from './types';
+
+// textTracks 큐 로드 대기 시간 (ms)
+const TEXT_TRACK_LOAD_TIMEOUT_MS = 2000;
+
+/**
+ * 소스 URL로 비디오 엘리먼트 찾기
+ */
+export function findVideoBySource(sourceUrl: string): HTMLVideoElement | null {
+  const videos = querySelectorAllDeep<HTMLVideoElement>('video');
+  return videos.find(video =>
+    video.currentSrc === sourceUrl
+    || video.src === sourceUrl
+    || Array.from(video.querySelectorAll('source')).some(source => source.src === sourceUrl)
+  ) || null;
+}
+
+/**
+ * 자막 종류의 트랙인지 (kind 생략 시 subtitles)
+ */
+function isSubtitleKind(kind: string): boolean {
+  return kind === '' || kind === 'subtitles' || kind === 'captions';
+}
+
+function getSubtitleTrackElements(video: HTMLVideoElement): HTMLTrackElement[] {
+  return Array.from(video.querySelectorAll('track')).filter(track => isSubtitleKind(track.kind) && track.src);
+}
+
+export function hasSubtitleTracks(video: HTMLVideoElement): boolean {
+  return getSubtitleTrackElements(video).length > 0
+    || Array.from(video.textTracks).some(track => isSubtitleKind(track.kind));
+}
+
+/**
+ * <track> 엘리먼트를 공통 자막 트랙 형식으로
+ */
+export function getHTML5CaptionTracks(video: HTMLVideoElement): CaptionTrack[] {
+  return getSubtitleTrackElements(video)
+    .filter(track => track.srclang)
+    .map(track => ({
+      baseUrl: track.src,
+      languageCode: track.srclang,
+      name: track.label || track.srclang,
+      kind: track.kind
+    }));
+}
+
+/**
+ * 사용자 언어 → 기본(default) 트랙 → 첫 트랙 순서로 선택
+ */
+function pickPreferredTrack<T>(items: T[], getLanguage: (item: T) => string, isDefault: (item: T) => boolean): T | undefined {
+  const preferred = getPreferredLanguage();
+  return items.find(item => getLanguage(item).toLowerCase().split(/[-_]/)[0] === preferred)
+    || items.find(isDefault)
+    || items[0];
+}
+
+/**
+ * textTrack의 큐 읽기
+ * 비활성 트랙은 화면에 표시하지 않는 hidden 모드로 잠시 켜서 로드한 뒤 원래 모드로 복원
+ */
+async function readTextTrackCues(track: TextTrack): Promise<Array<{ start: number; text: string }>> {
+  const originalMode = track.mode;
+  if (originalMode === 'disabled') {
+    track.mode = 'hidden';
+  }
+
+  try {
+    const deadline = Date.now() + TEXT_TRACK_LOAD_TIMEOUT_MS;
+    while ((!track.cues || track.cues.length === 0) && Date.now() < deadline) {
+      await new Promise(resolve => setTimeout(resolve, 100));
+    }
+
+    return Array.from(track.cues || [])
+      .filter((cue): cue is VTTCue => 'text' in cue)
+      .map(cue => ({ start: cue.startTime, text: cue.text }));
+  } finally {
+    track.mode = originalMode;
+  }
+}
+
+/**
+ * HTML5 비디오 자막 추출
+ * <track> 자막 파일(WebVTT/SRT)을 직접 가져오고, 실패하면 브라우저가 읽은 textTracks 큐 사용
+ * @param selection 자막 트랙 언어 (생략 시 사용자 언어 → default 트랙)
+ */
+export async function getHTML5Transcript(video: HTMLVideoElement, selection?: CaptionSelection): Promise<PlatformTranscript> {
+  const trackElements = getSubtitleTrackElements(video);
+  const selected = selection && selectCaptionTrack(getHTML5CaptionTracks(video), selection);
+  const trackElement = (selected && trackElements.find(track => track.src === selected.track.baseUrl))
+    || pickPreferredTrack(trackElements, track => track.srclang, track => track.default);
+
+  if (trackElement) {
+    try {
+      const response = await fetch(trackElement.src);
+      if (response.ok) {
+        const segments = parseSubtitles(await response.text());
+        if (segments.length > 0) {
+          console.log('[Video Summarizer] <track> 자막 추출 성공:', segments.length, '개 큐');
+          return { transcript: segmentsToTranscript(segments), segments, language: trackElement.srclang || undefined };
+        }
+      }
+    } catch (error) {
+      // CORS 등으로 직접 가져올 수 없으면 textTracks로 재시도
+      console.log('[Video Summarizer] <track> 자막 가져오기 실패:', error);
+    }
+  }
+
+  const textTracks = Array.from(video.textTracks).filter(track => isSubtitleKind(track.kind));
+  const textTrack = (trackElement && textTracks.find(track => track === trackElement.track))
+    || pickPreferredTrack(textTracks, track => track.language, track => track.mode === 'showing');
+  if (!textTrack) {
+    throw new Error('자막 트랙이 없습니다');
+  }
+
+  const segments = normalizeCues(await readTextTrackCues(textTrack));
+  if (segments.length === 0) {
+    throw new Error('자막 큐가 없습니다');
+  }
+
+  console.log('[Video Summarizer] textTracks 자막 추출 성공:', segments.length, '개 큐');
+  return { transcript: segmentsToTranscript(segments), segments, language: textTrack.language || undefined };
+}
@@ -0,0 +1,40 @@
+/**
+ * 플랫폼 어댑터 등록
+ * 새 사이트는 어댑터를 만들어 PLATFORM_ADAPTERS에 추가하면 감지/자막/재생 제어에 모두 적용됨
+ */
+
+import type { VideoPlatform } from '../../types';
+import type { PlatformAdapter } from './types';
+import { YouTubeAdapter } from './youtube';
+import { VimeoAdapter } from './vimeo';
+import { TwitchAdapter } from './twitch';
+import { DailymotionAdapter } from './dailymotion';
+import { WistiaAdapter } from './wistia';
+import { LoomAdapter } from './loom';
+import { TedAdapter } from './ted';
+import { CourseraAdapter } from './coursera';
+
+export type { PlatformAdapter, PlatformTranscript } from './types';
+
+// 감지 순서 = 목록 표시 순서
+export const PLATFORM_ADAPTERS: PlatformAdapter[] = [
+  new YouTubeAdapter(),
+  new VimeoAdapter(),
+  new TwitchAdapter(),
+  new DailymotionAdapter(),
+  new WistiaAdapter(),
+  new LoomAdapter(),
+  new TedAdapter(),
+  new CourseraAdapter()
+];
+
+/**
+ * 현재 페이지(프레임) URL을 처리하는 어댑터
+ */
+export function getPageAdapter(url: string = window.location.href): PlatformAdapter | undefined {
+  return PLATFORM_ADAPTERS.find(adapter => adapter.matchUrl(url));
+}
+
+export function getAdapter(platform: VideoPlatform): PlatformAdapter | undefined {
+  return PLATFORM_ADAPTERS.find(adapter => adapter.platform === platform);
+}
@@ -0,0 +1,86 @@
+/**
+ * Loom 어댑터
+ * 페이지 데이터의 captions_source_url(VTT)을 우선 사용하고, 없으면 플레이어의 <track> 자막 사용
+ */
+
+import { BasePlatformAdapter, getMetaContent } from './base';
+import { getHTML5Transcript } from './html5';
+import { parseSubtitles, segmentsToTranscript } from '../../services/subtitles';
+import type { CaptionSelection, VideoInfo } from '../../types';
+import type { PlatformTranscript } from './types';
+
+export class LoomAdapter extends BasePlatformAdapter {
+  readonly platform = 'loom' as const;
+
+  matchUrl(url: string): boolean {
+    return url.includes('loom.com') && this.getVideoId(url) !== null;
+  }
+
+  /**
+   * 비디오 ID 추출 (loom.com/share/{id}, loom.com/embed/{id})
+   */
+  getVideoId(url: string): string | null {
+    const match = url.match(/loom\.com\/(?:share|embed)\/([a-f0-9]+)/i);
+    return match ? match[1] : null;
+  }
+
+  detect(): VideoInfo[] {
+    const url = window.location.href;
+    const videoId = this.getVideoId(url);
+    if (!videoId) return [];
+
+    return [{
+      platform: 'loom',
+      videoId,
+      title: getMetaContent('og:title') || document.title.replace(/ \| Loom$/, ''),
+      duration: this.getVideoDuration(),
+      url,
+      thumbnailUrl: getMetaContent('og:image')
+    }];
+  }
+
+  detectEmbed(src: string, iframe: HTMLIFrameElement): VideoInfo | null {
+    if (!src.includes('loom.com/embed/')) return null;
+    const videoId = this.getVideoId(src);
+    if (!videoId) return null;
+
+    return {
+      platform: 'loom',
+      videoId,
+      title: iframe.title || 'Loom 비디오',
+      url: src
+    };
+  }
+
+  async getTranscript(_videoId: string, selection?: CaptionSelection): Promise<PlatformTranscript> {
+    const captionsUrl = this.findCaptionsUrl();
+    if (captionsUrl) {
+      const response = await fetch(captionsUrl);
+      if (response.ok) {
+        const segments = parseSubtitles(await response.text());
+        if (segments.length > 0) {
+          return { transcript: segmentsToTranscript(segments), segments };
+        }
+      }
+    }
+
+    const video = this.findVideo();
+    if (!video) {
+      throw new Error('Loom 자막을 찾을 수 없습니다');
+    }
+    return getHTML5Transcript(video, selection);
+  }
+
+  /**
+   * 페이지 스크립트(Apollo 상태)의 자막 VTT 주소
+   */
+  private findCaptionsUrl(): string | null {
+    for (const script of document.querySelectorAll('script')) {
+      const match = script.textContent?.match(/"captions_source_url"\s*:\s*"([^"]+)"/);
+      if (match) {
+        return JSON.parse(`"${match[1]}"`);
+      }
+    }
+    return null;
+  }
+}
@@ -0,0 +1,132 @@
+/**
+ * TED 어댑터
+ * 페이지의 __NEXT_DATA__에서 강연 정보와 스크립트(transcriptData)를 읽고, 없으면 GraphQL로 요청
+ */
+
+import { BasePlatformAdapter, getMetaContent } from './base';
+import { getPreferredLanguage } from '../../services/captions';
+import { normalizeCues, segmentsToTranscript } from '../../services/subtitles';
+import type { VideoInfo } from '../../types';
+import type { PlatformTranscript } from './types';
+
+// 스크립트 문단 (time은 ms)
+interface TedParagraph {
+  cues?: Array<{ text: string; time: number }>;
+}
+
+interface TedNextData {
+  props?: {
+    pageProps?: {
+      videoData?: {
+        slug?: string;
+        title?: string;
+        duration?: number;
+        presenterDisplayName?: string;
+      };
+      transcriptData?: {
+        translation?: {
+          language?: { languageCode?: string };
+          paragraphs?: TedParagraph[];
+        };
+      };
+    };
+  };
+}
+
+function readNextData(): TedNextData | null {
+  try {
+    return JSON.parse(document.getElementById('__NEXT_DATA__')?.textContent || 'null');
+  } catch {
+    return null;
+  }
+}
+
+function toTranscript(paragraphs: TedParagraph[], language?: string): PlatformTranscript {
+  const segments = normalizeCues(
+    paragraphs.flatMap(paragraph => paragraph.cues || []).map(cue => ({ start: cue.time / 1000, text: cue.text }))
+  );
+  return { transcript: segmentsToTranscript(segments), segments, language };
+}
+
+export class TedAdapter extends BasePlatformAdapter {
+  readonly platform = 'ted' as const;
+
+  matchUrl(url: string): boolean {
+    return url.includes('ted.com/talks/') && this.getVideoId(url) !== null;
+  }
+
+  /**
+   * 강연 slug 추출 (ted.com/talks/{slug}, embed.ted.com/talks/{slug})
+   */
+  getVideoId(url: string): string | null {
+    const match = url.match(/ted\.com\/talks\/([\w-]+)/);
+    return match ? match[1] : null;
+  }
+
+  detect(): VideoInfo[] {
+    const url = window.location.href;
+    const videoId = this.getVideoId(url);
+    if (!videoId) return [];
+
+    const videoData = readNextData()?.props?.pageProps?.videoData;
+    return [{
+      platform: 'ted',
+      videoId,
+      title: videoData?.title || getMetaContent('og:title') || document.title.replace(/ \| TED Talk$/, ''),
+      duration: videoData?.duration || this.getVideoDuration(),
+      url,
+      thumbnailUrl: getMetaContent('og:image'),
+      author: videoData?.presenterDisplayName
+    }];
+  }
+
+  detectEmbed(src: string, iframe: HTMLIFrameElement): VideoInfo | null {
+    if (!src.includes('embed.ted.com/talks/')) return null;
+    const videoId = this.getVideoId(src);
+    if (!videoId) return null;
+
+    return {
+      platform: 'ted',
+      videoId,
+      title: iframe.title || 'TED 강연',
+      url: `https://www.ted.com/talks/${videoId}`
+    };
+  }
+
+  /**
+   * 강연 스크립트 (사용자 언어 → 페이지에 포함된 언어 → 영어)
+   */
+  async getTranscript(videoId: string): Promise<PlatformTranscript> {
+    const preferred = getPreferredLanguage();
+    const translation = readNextData()?.props?.pageProps?.transcriptData?.translation;
+    const pageLanguage = translation?.language?.languageCode;
+    const pageTranscript = translation?.paragraphs?.length ? toTranscript(translation.paragraphs, pageLanguage) : null;
+
+    if (pageTranscript && pageLanguage === preferred) return pageTranscript;
+
+    const preferredParagraphs = await this.fetchTranslation(videoId, preferred);
+    if (preferredParagraphs.length > 0) return toTranscript(preferredParagraphs, preferred);
+
+    if (pageTranscript) return pageTranscript;
+
+    const englishParagraphs = preferred === 'en' ? [] : await this.fetchTranslation(videoId, 'en');
+    if (englishParagraphs.length > 0) return toTranscript(englishParagraphs, 'en');
+
+    throw new Error('TED 스크립트를 찾을 수 없습니다');
+  }
+
+  private async fetchTranslation(videoId: string, language: string): Promise<TedParagraph[]> {
+    const response = await fetch('https://www.ted.com/graphql', {
+      method: 'POST',
+      headers: { 'Content-Type': 'application/json' },
+      body: JSON.stringify({
+        query: 'query ($videoId: ID!, $language: String!) { translation(videoId: $videoId, language: $language) { paragraphs { cues { text time } } } }',
+        variables: { videoId, language }
+      })
+    }).catch(() => null);
+
+    if (!response?.ok) return [];
+    const data: { data?: { translation?: { paragraphs?: TedParagraph[] } | null } } = await response.json();
+    return data.data?.translation?.paragraphs || [];
+  }
+}
@@ -0,0 +1,52 @@
+/**
+ * Twitch 다시보기(VOD) 어댑터
+ * Twitch는 공개 자막 트랙이 없으므로 감지와 재생 제어만 지원 (제목 기반 분석)
+ */
+
+import { BasePlatformAdapter, getMetaContent } from './base';
+import type { VideoInfo } from '../../types';
+
+export class TwitchAdapter extends BasePlatformAdapter {
+  readonly platform = 'twitch' as const;
+
+  matchUrl(url: string): boolean {
+    return url.includes('twitch.tv') && this.getVideoId(url) !== null;
+  }
+
+  /**
+   * VOD ID 추출 (twitch.tv/videos/123, player.twitch.tv/?video=v123)
+   */
+  getVideoId(url: string): string | null {
+    const match = url.match(/twitch\.tv\/videos\/(\d+)/) || url.match(/player\.twitch\.tv\/.*[?&]video=v?(\d+)/);
+    return match ? match[1] : null;
+  }
+
+  detect(): VideoInfo[] {
+    const url = window.location.href;
+    const videoId = this.getVideoId(url);
+    if (!videoId) return [];
+
+    return [{
+      platform: 'twitch',
+      videoId,
+      title: getMetaContent('og:title') || document.title.replace(/ - Twitch$/, ''),
+      duration: this.getVideoDuration(),
+      url,
+      thumbnailUrl: getMetaContent('og:image'),
+      author: document.querySelector('[data-a-target="stream-info-card-component"] h1, .channel-info-content h1')?.textContent?.trim() || undefined
+    }];
+  }
+
+  detectEmbed(src: string, iframe: HTMLIFrameElement): VideoInfo | null {
+    if (!src.includes('player.twitch.tv')) return null;
+    const videoId = this.getVideoId(src);
+    if (!videoId) return null;
+
+    return {
+      platform: 'twitch',
+      videoId,
+      title: iframe.title || 'Twitch 다시보기',
+      url: `https://www.twitch.tv/videos/${videoId}`
+    };
+  }
+}
@@ -0,0 +1,37 @@
+import type { CaptionSelection, CaptionTrack, VideoInfo, VideoPlatform } from '../../types';
+
+// 페이지에서 추출한 자막
+export interface PlatformTranscript {
+  transcript: string;
+  segments: Array<{ start: number; text: string }>;
+  language?: string;
+}
+
+/**
+ * 비디오 플랫폼 어댑터
+ * 사이트별 감지/자막/재생 제어를 한 곳에 모아 VideoDetector와 Content Script가 공통으로 사용
+ */
+export interface PlatformAdapter {
+  readonly platform: VideoPlatform;
+
+  // 현재 프레임의 URL이 이 플랫폼의 비디오 페이지(또는 플레이어 iframe)인지
+  matchUrl(url: string): boolean;
+  getVideoId(url: string): string | null;
+
+  // 플랫폼 페이지의 비디오 감지 (matchUrl이 true일 때만 호출)
+  detect(): VideoInfo[];
+  // 다른 사이트에 삽입된 플레이어 iframe 인식
+  detectEmbed?(src: string, iframe: HTMLIFrameElement): VideoInfo | null;
+  // 다른 사이트에 스크립트로 삽입된 플레이어 감지 (모든 페이지에서 호출)
+  detectEmbedded?(): VideoInfo[];
+
+  // 이 프레임에서 해당 비디오의 자막을 가져올 수 있는지
+  ownsVideo(videoId: string): boolean;
+  getCaptionTracks?(videoId: string): Promise<CaptionTrack[]>;
+  getTranscript?(videoId: string, selection?: CaptionSelection): Promise<PlatformTranscript>;
+
+  // 재생 제어
+  findVideo(): HTMLVideoElement | null;
+  seek(time: number): boolean;
+  getCurrentTime(): number | undefined;
+}
@@ -0,0 +1,190 @@
+/**
+ * Vimeo 어댑터
+ * 플레이어 설정(playerConfig)의 text_tracks에서 VTT 자막을, 페이지 설정에서 길이/썸네일/작성자를 읽음
+ */
+
+import { BasePlatformAdapter } from './base';
+import { findInlineJson } from '../pageData';
+import { selectCaptionTrack } from '../../services/captions';
+import { parseSubtitles, segmentsToTranscript } from '../../services/subtitles';
+import type { CaptionSelection, CaptionTrack, VideoInfo } from '../../types';
+import type { PlatformTranscript } from './types';
+
+const PLAYER_ORIGIN = 'https://player.vimeo.com';
+
+// 플레이어 설정의 자막 트랙
+interface VimeoTextTrack {
+  lang: string;
+  url: string;          // 상대 경로 ("/texttrack/123.vtt?token=...")
+  kind?: string;        // 'subtitles' | 'captions'
+  label?: string;
+}
+
+// 플레이어 설정 (embed 페이지의 window.playerConfig, /video/{id}/config 응답)
+interface VimeoPlayerConfig {
+  request?: {
+    text_tracks?: VimeoTextTrack[];
+  };
+  video?: {
+    id?: number;
+    title?: string;
+    duration?: number;
+    thumbs?: Record<string, string>;
+    owner?: { name?: string };
+  };
+}
+
+// vimeo.com 비디오 페이지 설정 (window.vimeo.clip_page_config)
+interface VimeoClipPageConfig {
+  clip?: {
+    id?: number;
+    title?: string;
+    duration?: { raw?: number };
+  };
+  owner?: { display_name?: string };
+  thumbnail?: { src?: string; src_2x?: string };
+  player?: { config_url?: string };
+}
+
+/**
+ * 인라인 플레이어 설정 (다른 비디오의 설정이면 제외)
+ */
+function readInlinePlayerConfig(videoId: string): VimeoPlayerConfig | null {
+  const config = findInlineJson<VimeoPlayerConfig>('window.playerConfig =');
+  if (config?.video?.id && String(config.video.id) !== videoId) return null;
+  return config;
+}
+
+function readClipPageConfig(videoId: string): VimeoClipPageConfig | null {
+  const config = findInlineJson<VimeoClipPageConfig>('window.vimeo.clip_page_config =');
+  if (config?.clip?.id && String(config.clip.id) !== videoId) return null;
+  return config;
+}
+
+/**
+ * 가장 큰 썸네일 URL
+ */
+function pickThumbnail(thumbs?: Record<string, string>): string | undefined {
+  if (!thumbs) return undefined;
+  const sizes = Object.keys(thumbs).filter(key => /^\d+$/.test(key)).sort((a, b) => Number(b) - Number(a));
+  return sizes.length > 0 ? thumbs[sizes[0]] : thumbs.base;
+}
+
+/**
+ * 플레이어 설정 가져오기
+ * embed 페이지는 인라인 설정, vimeo.com 페이지는 config_url(비공개 비디오 서명 포함) 또는 기본 config 경로 요청
+ */
+async function loadPlayerConfig(videoId: string): Promise<VimeoPlayerConfig | null> {
+  const inline = readInlinePlayerConfig(videoId);
+  if (inline?.request?.text_tracks) return inline;
+
+  const configUrl = readClipPageConfig(videoId)?.player?.config_url || `${PLAYER_ORIGIN}/video/${videoId}/config`;
+  try {
+    const response = await fetch(configUrl, { credentials: 'include' });
+    if (!response.ok) return inline;
+    return await response.json();
+  } catch (error) {
+    console.log('[Video Summarizer] Vimeo 플레이어 설정 가져오기 실패:', error);
+    return inline;
+  }
+}
+
+/**
+ * text_tracks를 공통 자막 트랙 형식으로 변환 (자동 생성 자막은 kind 'asr')
+ */
+function toCaptionTracks(textTracks: VimeoTextTrack[]): CaptionTrack[] {
+  return textTracks
+    .filter(track => track.url && track.lang)
+    .map(track => ({
+      baseUrl: new URL(track.url, PLAYER_ORIGIN).href,
+      languageCode: track.lang.replace(/-x-autogen$/, ''),
+      name: track.label || track.lang,
+      kind: track.lang.endsWith('-x-autogen') ? 'asr' : track.kind
+    }));
+}
+
+export class VimeoAdapter extends BasePlatformAdapter {
+  readonly platform = 'vimeo' as const;
+
+  matchUrl(url: string): boolean {
+    return url.includes('vimeo.com') && this.getVideoId(url) !== null;
+  }
+
+  /**
+   * Vimeo 비디오 ID 추출 (vimeo.com/123, vimeo.com/channels/x/123, player.vimeo.com/video/123)
+   */
+  getVideoId(url: string): string | null {
+    const match = url.match(/player\.vimeo\.com\/video\/(\d+)/) || url.match(/vimeo\.com\/(?:.*\/)?(\d+)(?:[/?#]|$)/);
+    return match ? match[1] : null;
+  }
+
+  /**
+   * vimeo.com 페이지, player.vimeo.com 플레이어 iframe의 비디오
+   * 길이/썸네일/작성자는 페이지의 플레이어 설정에서 읽음
+   */
+  detect(): VideoInfo[] {
+    const url = window.location.href;
+    const videoId = this.getVideoId(url);
+    if (!videoId) return [];
+
+    const player = readInlinePlayerConfig(videoId);
+    const clipPage = readClipPageConfig(videoId);
+
+    const title = player?.video?.title || clipPage?.clip?.title
+      || document.querySelector('h1')?.textContent?.trim() || document.title;
+    // 설정에 길이가 없으면 재생 중인 비디오 엘리먼트 사용
+    const duration = player?.video?.duration || clipPage?.clip?.duration?.raw || this.getVideoDuration();
+    const thumbnailUrl = pickThumbnail(player?.video?.thumbs) || clipPage?.thumbnail?.src_2x || clipPage?.thumbnail?.src;
+
+    return [{
+      platform: 'vimeo',
+      videoId,
+      title,
+      duration,
+      url,
+      thumbnailUrl: thumbnailUrl || `https://vumbnail.com/${videoId}.jpg`,
+      author: player?.video?.owner?.name || clipPage?.owner?.display_name
+    }];
+  }
+
+  detectEmbed(src: string, iframe: HTMLIFrameElement): VideoInfo | null {
+    const match = src.match(/player\.vimeo\.com\/video\/(\d+)/);
+    if (!match) return null;
+
+    return {
+      platform: 'vimeo',
+      videoId: match[1],
+      title: iframe.title || 'Vimeo 비디오',
+      url: src,
+      thumbnailUrl: `https://vumbnail.com/${match[1]}.jpg`
+    };
+  }
+
+  /**
+   * 선택 가능한 자막 트랙 목록
+   */
+  async getCaptionTracks(videoId: string): Promise<CaptionTrack[]> {
+    const config = await loadPlayerConfig(videoId);
+    return toCaptionTracks(config?.request?.text_tracks || []);
+  }
+
+  /**
+   * Vimeo 자막 추출 (VTT)
+   * @param selection 자막 트랙 (생략 시 사용자 언어의 수동 자막 우선 자동 선택)
+   */
+  async getTranscript(videoId: string, selection?: CaptionSelection): Promise<PlatformTranscript> {
+    const selected = selectCaptionTrack(await this.getCaptionTracks(videoId), selection);
+    if (!selected) {
+      throw new Error('Vimeo 자막 트랙이 없습니다');
+    }
+
+    const response = await fetch(selected.track.baseUrl);
+    if (!response.ok) {
+      throw new Error(`Vimeo 자막을 가져올 수 없습니다 (${response.status})`);
+    }
+
+    const segments = parseSubtitles(await response.text());
+    console.log('[Video Summarizer] Vimeo 자막 추출 성공:', segments.length, '개 큐');
+    return { transcript: segmentsToTranscript(segments), segments, language: selected.track.languageCode };
+  }
+}
@@ -0,0 +1,141 @@
+/**
+ * Wistia 어댑터
+ * iframe 플레이어와 스크립트 삽입(.wistia_embed.wistia_async_{id}) 모두 감지하고,
+ * 공개 captions JSON(fast.wistia.com/embed/captions/{id}.json)에서 자막을 읽음
+ */
+
+import { BasePlatformAdapter } from './base';
+import { getLanguageName, selectCaptionTrack } from '../../services/captions';
+import { normalizeCues, parseSubtitles, segmentsToTranscript } from '../../services/subtitles';
+import type { CaptionSelection, CaptionTrack, VideoInfo } from '../../types';
+import type { PlatformTranscript } from './types';
+
+// captions JSON의 언어별 자막 (language는 ISO 639-2, 예: "eng")
+interface WistiaCaption {
+  language: string;
+  text?: string;              // SRT/VTT 원문
+  hash?: {
+    lines?: Array<{ start: number; end: number; text: string[] }>;
+  };
+}
+
+// ISO 639-2 → 639-1 (사용자 언어와 비교용)
+const LANGUAGE_CODES: Record<string, string> = {
+  eng: 'en',
+  kor: 'ko',
+  jpn: 'ja',
+  zho: 'zh',
+  chi: 'zh',
+  spa: 'es',
+  fra: 'fr',
+  fre: 'fr',
+  deu: 'de',
+  ger: 'de'
+};
+
+function captionsUrl(videoId: string): string {
+  return `https://fast.wistia.com/embed/captions/${videoId}.json`;
+}
+
+async function loadCaptions(videoId: string): Promise<WistiaCaption[]> {
+  const response = await fetch(captionsUrl(videoId));
+  if (!response.ok) return [];
+  const data: { captions?: WistiaCaption[] } = await response.json();
+  return data.captions || [];
+}
+
+function toCaptionTracks(videoId: string, captions: WistiaCaption[]): CaptionTrack[] {
+  return captions.map(caption => {
+    const languageCode = LANGUAGE_CODES[caption.language] || caption.language;
+    return {
+      baseUrl: `${captionsUrl(videoId)}#${caption.language}`,
+      languageCode,
+      name: getLanguageName(languageCode)
+    };
+  });
+}
+
+export class WistiaAdapter extends BasePlatformAdapter {
+  readonly platform = 'wistia' as const;
+
+  matchUrl(url: string): boolean {
+    return /wistia\.(com|net)\//.test(url) && this.getVideoId(url) !== null;
+  }
+
+  /**
+   * 미디어 ID 추출 (fast.wistia.net/embed/iframe/{id}, {account}.wistia.com/medias/{id})
+   */
+  getVideoId(url: string): string | null {
+    const match = url.match(/wistia\.(?:com|net)\/(?:embed\/iframe|medias)\/([a-z0-9]+)/i);
+    return match ? match[1] : null;
+  }
+
+  detect(): VideoInfo[] {
+    const url = window.location.href;
+    const videoId = this.getVideoId(url);
+    if (!videoId) return [];
+
+    return [{
+      platform: 'wistia',
+      videoId,
+      title: document.title || 'Wistia 비디오',
+      duration: this.getVideoDuration(),
+      url
+    }];
+  }
+
+  detectEmbed(src: string, iframe: HTMLIFrameElement): VideoInfo | null {
+    if (!src.includes('/embed/iframe/')) return null;
+    const videoId = this.getVideoId(src);
+    if (!videoId) return null;
+
+    return {
+      platform: 'wistia',
+      videoId,
+      title: iframe.title || 'Wistia 비디오',
+      url: src
+    };
+  }
+
+  /**
+   * 스크립트로 삽입된 플레이어 (페이지 안에 직접 video가 생성됨)
+   */
+  detectEmbedded(): VideoInfo[] {
+    return this.getEmbeddedIds().map(videoId => ({
+      platform: 'wistia',
+      videoId,
+      title: document.title || 'Wistia 비디오',
+      url: window.location.href
+    }));
+  }
+
+  ownsVideo(videoId: string): boolean {
+    return super.ownsVideo(videoId) || this.getEmbeddedIds().includes(videoId);
+  }
+
+  async getCaptionTracks(videoId: string): Promise<CaptionTrack[]> {
+    return toCaptionTracks(videoId, await loadCaptions(videoId));
+  }
+
+  async getTranscript(videoId: string, selection?: CaptionSelection): Promise<PlatformTranscript> {
+    const captions = await loadCaptions(videoId);
+    const tracks = toCaptionTracks(videoId, captions);
+    const selected = selectCaptionTrack(tracks, selection);
+    const caption = selected && captions[tracks.indexOf(selected.track)];
+    if (!caption) {
+      throw new Error('Wistia 자막이 없습니다');
+    }
+
+    const segments = caption.hash?.lines?.length
+      ? normalizeCues(caption.hash.lines.map(line => ({ start: line.start, text: line.text.join(' ') })))
+      : parseSubtitles(caption.text || '');
+    return { transcript: segmentsToTranscript(segments), segments, language: selected.track.languageCode };
+  }
+
+  private getEmbeddedIds(): string[] {
+    const ids = Array.from(document.querySelectorAll('.wistia_embed'))
+      .map(el => el.className.match(/wistia_async_([a-z0-9]+)/i)?.[1])
+      .filter((id): id is string => !!id);
+    return [...new Set(ids)];
+  }
+}
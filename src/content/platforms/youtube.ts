@@ -0,0 +1,241 @@
+/**
+ * YouTube 어댑터
+ * ytInitialPlayerResponse의 captionTracks에서 자막을 고르고, 원하는 언어가 없으면 tlang 번역 사용
+ */
+
+import { BasePlatformAdapter, parseClockTime } from './base';
+import { extractJsonBlock } from '../pageData';
+import { selectCaptionTrack } from '../../services/captions';
+import { segmentsToTranscript } from '../../services/subtitles';
+import type { CaptionSelection, CaptionTrack, VideoInfo } from '../../types';
+import type { PlatformTranscript } from './types';
+
+export class YouTubeAdapter extends BasePlatformAdapter {
+  readonly platform = 'youtube' as const;
+  protected videoSelector = 'video.html5-main-video, video.video-stream';
+
+  matchUrl(url: string): boolean {
+    return (url.includes('youtube.com') || url.includes('youtu.be')) && this.getVideoId(url) !== null;
+  }
+
+  /**
+   * YouTube 비디오 ID 추출
+   */
+  getVideoId(url: string): string | null {
+    const patterns = [
+      /(?:youtube\.com\/watch\?v=|youtu\.be\/|youtube(?:-nocookie)?\.com\/embed\/)([^&\n?#]+)/,
+      /youtube\.com\/watch\?.*[?&]v=([^&\n?#]+)/,
+      /youtube\.com\/shorts\/([^&\n?#]+)/,
+      /youtube\.com\/live\/([^&\n?#]+)/
+    ];
+
+    for (const pattern of patterns) {
+      const match = url.match(pattern);
+      if (match) return match[1];
+    }
+    return null;
+  }
+
+  detect(): VideoInfo[] {
+    const url = window.location.href;
+    const videoId = this.getVideoId(url);
+    if (!videoId) return [];
+
+    // 비디오 제목 추출 (여러 셀렉터 시도)
+    const titleSelectors = [
+      'h1.ytd-video-primary-info-renderer',
+      'h1.ytd-watch-metadata yt-formatted-string',
+      '#title h1 yt-formatted-string',
+      'meta[name="title"]'
+    ];
+
+    let title = document.title.replace(' - YouTube', '');
+    for (const selector of titleSelectors) {
+      const el = document.querySelector(selector);
+      if (el?.textContent?.trim()) {
+        title = el.textContent.trim();
+        break;
+      }
+    }
+
+    // 비디오 길이 추출
+    const durationElement = document.querySelector('.ytp-time-duration');
+    const duration = durationElement ? parseClockTime(durationElement.textContent || '') : undefined;
+
+    // 채널 이름
+    const author = document.querySelector('ytd-video-owner-renderer #channel-name a, #owner #channel-name a')?.textContent?.trim();
+
+    return [{
+      platform: 'youtube',
+      videoId,
+      title,
+      duration,
+      url,
+      thumbnailUrl: `https://img.youtube.com/vi/${videoId}/maxresdefault.jpg`,
+      author: author || undefined
+    }];
+  }
+
+  detectEmbed(src: string, iframe: HTMLIFrameElement): VideoInfo | null {
+    const match = src.match(/youtube(?:-nocookie)?\.com\/embed\/([^?&/]+)/);
+    if (!match) return null;
+
+    return {
+      platform: 'youtube',
+      videoId: match[1],
+      title: iframe.title || 'YouTube 비디오',
+      url: src,
+      thumbnailUrl: `https://img.youtube.com/vi/${match[1]}/maxresdefault.jpg`
+    };
+  }
+
+  async getCaptionTracks(videoId: string): Promise<CaptionTrack[]> {
+    return this.readCaptionTracks(videoId);
+  }
+
+  /**
+   * YouTube 자막 추출
+   * 트랙 목록에서 언어/종류를 골라 가져오고, 실패하면 열려 있는 자막 패널 사용
+   * @param selection 자막 트랙 (생략 시 사용자 언어의 수동 자막 우선 자동 선택)
+   */
+  async getTranscript(videoId: string, selection?: CaptionSelection): Promise<PlatformTranscript> {
+    // 방법 1: ytInitialPlayerResponse의 자막 트랙에서 선택
+    const transcriptFromPlayer = await this.extractFromPlayerResponse(videoId, selection);
+    if (transcriptFromPlayer.transcript) {
+      console.log('[Video Summarizer] Player Response에서 추출 성공:', transcriptFromPlayer.language);
+      return transcriptFromPlayer;
+    }
+
+    // 방법 2: 자막 패널에서 직접 추출 시도 (패널에 표시된 언어)
+    const transcriptFromPanel = this.extractFromTranscriptPanel();
+    if (transcriptFromPanel.transcript) {
+      console.log('[Video Summarizer] 자막 패널에서 추출 성공');
+      return transcriptFromPanel;
+    }
+
+    throw new Error('YouTube 자막을 찾을 수 없습니다');
+  }
+
+  /**
+   * 자막 패널에서 직접 추출
+   */
+  private extractFromTranscriptPanel(): PlatformTranscript {
+    // 이미 열려있는 자막 패널 찾기
+    const transcriptPanel = document.querySelector('ytd-transcript-renderer, ytd-engagement-panel-section-list-renderer[target-id="engagement-panel-searchable-transcript"]');
+
+    if (!transcriptPanel) {
+      return { transcript: '', segments: [] };
+    }
+
+    // 자막 세그먼트 추출
+    const segments: Array<{ start: number; text: string }> = [];
+    const segmentElements = transcriptPanel.querySelectorAll('ytd-transcript-segment-renderer, yt-formatted-string.segment-text');
+
+    segmentElements.forEach(el => {
+      const timeEl = el.querySelector('.segment-timestamp, [class*="timestamp"]');
+      const textEl = el.querySelector('.segment-text, yt-formatted-string');
+
+      if (textEl?.textContent) {
+        segments.push({
+          start: parseClockTime(timeEl?.textContent?.trim() || '0:00'),
+          text: textEl.textContent.trim()
+        });
+      }
+    });
+
+    return { transcript: segmentsToTranscript(segments), segments };
+  }
+
+  /**
+   * 페이지 스크립트의 captionTracks에서 자막 트랙 목록 추출
+   * SPA 이동 후 남아 있는 이전 비디오의 데이터는 제외
+   */
+  private readCaptionTracks(videoId: string): CaptionTrack[] {
+    for (const script of document.querySelectorAll('script')) {
+      const content = script.textContent || '';
+      const keyIndex = content.indexOf('"captionTracks":');
+      if (keyIndex === -1) continue;
+
+      const json = extractJsonBlock(content, content.indexOf('[', keyIndex));
+      if (!json) continue;
+
+      try {
+        const rawTracks: Array<{
+          baseUrl?: string;
+          languageCode?: string;
+          kind?: string;
+          isTranslatable?: boolean;
+          name?: { simpleText?: string; runs?: Array<{ text: string }> };
+        }> = JSON.parse(json);
+
+        const tracks = rawTracks
+          .filter(t => t.baseUrl && t.languageCode)
+          .map(t => ({
+            baseUrl: t.baseUrl!,
+            languageCode: t.languageCode!,
+            name: t.name?.simpleText || t.name?.runs?.map(r => r.text).join('') || t.languageCode!,
+            kind: t.kind,
+            isTranslatable: t.isTranslatable
+          }));
+
+        const trackVideoId = tracks[0] && new URL(tracks[0].baseUrl, 'https://www.youtube.com').searchParams.get('v');
+        if (trackVideoId && trackVideoId !== videoId) continue;
+
+        return tracks;
+      } catch (error) {
+        console.error('[Video Summarizer] 자막 트랙 파싱 실패:', error);
+      }
+    }
+
+    return [];
+  }
+
+  /**
+   * ytInitialPlayerResponse에서 자막 추출
+   */
+  private async extractFromPlayerResponse(videoId: string, selection?: CaptionSelection): Promise<PlatformTranscript> {
+    try {
+      const selected = selectCaptionTrack(this.readCaptionTracks(videoId), selection);
+      if (!selected) {
+        return { transcript: '', segments: [] };
+      }
+
+      // 원하는 언어의 트랙이 없으면 YouTube 번역 자막 (tlang)
+      const captionUrl = selected.translateTo
+        ? `${selected.track.baseUrl}&tlang=${encodeURIComponent(selected.translateTo)}`
+        : selected.track.baseUrl;
+      const language = selected.translateTo || selected.track.languageCode;
+
+      // 자막 XML 가져오기
+      const response = await fetch(captionUrl);
+      const xml = await response.text();
+
+      // XML 파싱
+      const parser = new DOMParser();
+      const doc = parser.parseFromString(xml, 'text/xml');
+      const textElements = doc.querySelectorAll('text');
+
+      const segments: Array<{ start: number; text: string }> = [];
+
+      textElements.forEach(el => {
+        const start = parseFloat(el.getAttribute('start') || '0');
+        const text = el.textContent?.replace(/&#(\d+);/g, (_, code) => String.fromCharCode(parseInt(code)))
+          .replace(/&amp;/g, '&')
+          .replace(/&lt;/g, '<')
+          .replace(/&gt;/g, '>')
+          .replace(/&quot;/g, '"')
+          .replace(/\n/g, ' ')
+          .trim() || '';
+
+        if (text) {
+          segments.push({ start, text });
+        }
+      });
+
+      return { transcript: segmentsToTranscript(segments), segments, language };
+    } catch (error) {
+      console.error('[Video Summarizer] Player Response 파싱 실패:', error);
+      return { transcript: '', segments: [] };
+    }
+  }
+}
@@ -0,0 +1,152 @@
+/**
+ * 장면 전환 감지
+ * 비디오를 저해상도로 훑으면서 이전 샘플과의 차이(밝기 히스토그램 + 픽셀 차이)가 큰 지점을 찾음
+ * 슬라이드/장면이 바뀌는 지점만 캡처하면 고정 간격보다 적은 사진으로 내용 변화를 담을 수 있음
+ */
+
+// 훑어보기 해상도 (16:9, 비교용이라 작게)
+const SCAN_WIDTH = 64;
+const SCAN_HEIGHT = 36;
+const HISTOGRAM_BINS = 32;
+
+// 최대 샘플 수 (긴 비디오는 샘플 간격을 늘림), 최소 샘플 간격 (초)
+const MAX_SCAN_POINTS = 120;
+const MIN_SCAN_INTERVAL = 2;
+
+// 이 점수 미만의 변화는 같은 장면으로 봄 (0~1)
+export const SCENE_CHANGE_THRESHOLD = 0.12;
+
+export interface SceneChange {
+  time: number;  // 새 장면이 보이는 시점 (초)
+  score: number; // 직전 샘플과의 변화 정도 (0~1, 첫 장면은 1)
+}
+
+export interface SceneScanOptions {
+  maxFrames: number;
+  minSpacingSeconds: number;
+}
+
+// 샘플 한 장의 비교용 정보 (밝기 값, 정규화한 밝기 히스토그램)
+interface FrameSignature {
+  luma: Float32Array;
+  histogram: Float32Array;
+}
+
+/**
+ * 현재 비디오 화면의 비교용 정보 (교차 출처 비디오면 getImageData에서 에러)
+ */
+function readSignature(video: HTMLVideoElement, ctx: CanvasRenderingContext2D): FrameSignature {
+  ctx.drawImage(video, 0, 0, SCAN_WIDTH, SCAN_HEIGHT);
+  const { data } = ctx.getImageData(0, 0, SCAN_WIDTH, SCAN_HEIGHT);
+
+  const pixelCount = SCAN_WIDTH * SCAN_HEIGHT;
+  const luma = new Float32Array(pixelCount);
+  const histogram = new Float32Array(HISTOGRAM_BINS);
+
+  for (let i = 0; i < pixelCount; i++) {
+    const value = 0.299 * data[i * 4] + 0.587 * data[i * 4 + 1] + 0.114 * data[i * 4 + 2];
+    luma[i] = value;
+    histogram[Math.min(HISTOGRAM_BINS - 1, Math.floor(value / (256 / HISTOGRAM_BINS)))] += 1 / pixelCount;
+  }
+
+  return { luma, histogram };
+}
+
+/**
+ * 히스토그램 차이 (0~1): 밝기 분포가 바뀌면 큼 (컷 전환, 배경이 다른 슬라이드)
+ */
+function histogramDistance(a: Float32Array, b: Float32Array): number {
+  let sum = 0;
+  for (let i = 0; i < a.length; i++) {
+    sum += Math.abs(a[i] - b[i]);
+  }
+  return sum / 2;
+}
+
+/**
+ * 평균 픽셀 차이 (0~1): 분포가 비슷해도 내용이 바뀌면 큼 (같은 템플릿의 다음 슬라이드)
+ */
+function pixelDifference(a: Float32Array, b: Float32Array): number {
+  let sum = 0;
+  for (let i = 0; i < a.length; i++) {
+    sum += Math.abs(a[i] - b[i]);
+  }
+  return sum / (a.length * 255);
+}
+
+/**
+ * 두 샘플 사이의 변화 점수 (0~1)
+ */
+function getChangeScore(previous: FrameSignature, current: FrameSignature): number {
+  return Math.min(1, (histogramDistance(previous.histogram, current.histogram) + pixelDifference(previous.luma, current.luma)) / 2);
+}
+
+/**
+ * 변화 점수가 큰 지점부터 최소 간격을 지키며 최대 maxFrames개 선택 (시간순 반환)
+ * 첫 장면은 항상 포함
+ */
+export function selectSceneChanges(samples: SceneChange[], options: SceneScanOptions): SceneChange[] {
+  if (samples.length === 0) return [];
+
+  const [opening, ...rest] = samples;
+  const selected: SceneChange[] = [{ time: opening.time, score: 1 }];
+  const candidates = rest
+    .filter(sample => sample.score >= SCENE_CHANGE_THRESHOLD)
+    .sort((a, b) => b.score - a.score);
+
+  for (const candidate of candidates) {
+    if (selected.length >= options.maxFrames) break;
+    if (selected.every(scene => Math.abs(scene.time - candidate.time) >= options.minSpacingSeconds)) {
+      selected.push(candidate);
+    }
+  }
+
+  return selected.sort((a, b) => a.time - b.time);
+}
+
+/**
+ * 장면 비교기: 호출할 때마다 비디오의 현재 화면과 직전 호출 화면의 변화 점수 반환 (첫 호출은 1)
+ * 교차 출처 비디오면 에러
+ */
+export function createSceneSampler(): (video: HTMLVideoElement) => number {
+  const canvas = document.createElement('canvas');
+  canvas.width = SCAN_WIDTH;
+  canvas.height = SCAN_HEIGHT;
+  const ctx = canvas.getContext('2d', { willReadFrequently: true });
+  if (!ctx) {
+    throw new Error('Canvas context를 가져올 수 없습니다');
+  }
+
+  let previous: FrameSignature | null = null;
+  return video => {
+    const signature = readSignature(video, ctx);
+    const score = previous ? getChangeScore(previous, signature) : 1;
+    previous = signature;
+    return score;
+  };
+}
+
+/**
+ * 비디오를 훑어 장면 전환 지점 찾기
+ * @param seek 비디오를 해당 시간으로 이동 (seeked 이벤트까지 대기)
+ */
+export async function scanSceneChanges(
+  video: HTMLVideoElement,
+  seek: (time: number) => Promise<void>,
+  options: SceneScanOptions
+): Promise<SceneChange[]> {
+  const sample = createSceneSampler();
+  const duration = video.duration;
+  const interval = Math.max(MIN_SCAN_INTERVAL, duration / MAX_SCAN_POINTS);
+  const samples: SceneChange[] = [];
+
+  // 시작/끝의 검은 화면을 피하려고 반 간격 안쪽부터 샘플링
+  for (let time = Math.min(interval / 2, duration / 2); time < duration; time += interval) {
+    await seek(time);
+    samples.push({ time, score: sample(video) });
+  }
+
+  const changes = selectSceneChanges(samples, options);
+  console.log(`[Video Summarizer] 장면 전환 ${changes.length}개 감지 (샘플 ${samples.length}개)`);
+  return changes;
+}
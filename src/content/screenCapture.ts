@@ -0,0 +1,169 @@
+/**
+ * 화면 캡처(captureVisibleTab) 보조
+ * Canvas로 픽셀을 읽을 수 없는 교차 출처 비디오는 탭 화면 전체를 캡처하므로
+ * 캡처 전에 비디오를 화면 안으로 옮기고 위에 겹친 컨트롤을 숨긴 뒤, 비디오 영역만 잘라냄
+ */
+
+// 비디오 위에 겹친 요소를 찾을 지점 (비디오 크기 대비 비율)
+const OVERLAY_PROBE_POINTS: Array<[number, number]> = [
+  [0.5, 0.5], [0.1, 0.1], [0.9, 0.1], [0.1, 0.9], [0.9, 0.9], [0.5, 0.95]
+];
+
+// 탭 화면 기준 비디오 영역 (CSS 픽셀)
+export interface CaptureRect {
+  left: number;
+  top: number;
+  width: number;
+  height: number;
+}
+
+/**
+ * shadow host까지 포함한 상위 요소 (video 자신 포함)
+ */
+function getComposedAncestors(element: Element): Set<Element> {
+  const ancestors = new Set<Element>();
+  let current: Element | null = element;
+  while (current) {
+    ancestors.add(current);
+    const root = current.getRootNode();
+    current = current.parentElement || (root instanceof ShadowRoot ? root.host : null);
+  }
+  return ancestors;
+}
+
+/**
+ * 비디오 위에 겹쳐 보이는 요소 (플레이어 컨트롤, 자막 오버레이, 고정 헤더 등)
+ * elementsFromPoint는 위에 있는 요소부터 반환하므로 비디오(또는 비디오를 감싼 shadow host)보다 앞의 요소
+ */
+function findOverlays(video: HTMLVideoElement): HTMLElement[] {
+  const rect = video.getBoundingClientRect();
+  const ancestors = getComposedAncestors(video);
+  const overlays = new Set<HTMLElement>();
+
+  for (const [x, y] of OVERLAY_PROBE_POINTS) {
+    const elements = document.elementsFromPoint(rect.left + rect.width * x, rect.top + rect.height * y);
+    for (const element of elements) {
+      if (ancestors.has(element)) break;
+      if (element instanceof HTMLElement) overlays.add(element);
+    }
+  }
+
+  // 겹친 요소 안쪽 요소는 바깥 요소를 숨기면 함께 숨겨짐
+  return [...overlays].filter(element => ![...overlays].some(other => other !== element && other.contains(element)));
+}
+
+/**
+ * 화면 캡처 준비: 비디오를 화면 안으로 스크롤하고 겹친 요소와 기본 컨트롤을 숨김
+ * @returns 원래 상태로 되돌리는 함수
+ */
+export async function prepareScreenCapture(video: HTMLVideoElement): Promise<() => void> {
+  const scrollX = window.scrollX;
+  const scrollY = window.scrollY;
+
+  // 일부라도 탭 화면 밖이면 (iframe 자체가 화면 밖인 경우 포함) 가운데로 스크롤
+  const rect = video.getBoundingClientRect();
+  const visible = getCaptureRect(video);
+  const isOutOfView = !visible || visible.width < rect.width - 1 || visible.height < rect.height - 1;
+  if (isOutOfView) {
+    video.scrollIntoView({ block: 'center', inline: 'center' });
+    await new Promise(resolve => setTimeout(resolve, 300));
+  }
+
+  const hadControls = video.controls;
+  video.controls = false;
+
+  const overlays = findOverlays(video).map(element => ({ element, visibility: element.style.visibility }));
+  overlays.forEach(({ element }) => {
+    element.style.visibility = 'hidden';
+  });
+  if (overlays.length > 0) {
+    console.log(`[Video Summarizer] 화면 캡처 중 겹친 요소 ${overlays.length}개 숨김`);
+  }
+
+  return () => {
+    overlays.forEach(({ element, visibility }) => {
+      element.style.visibility = visibility;
+    });
+    video.controls = hadControls;
+    if (isOutOfView) {
+      window.scrollTo(scrollX, scrollY);
+    }
+  };
+}
+
+/**
+ * 탭 화면 기준 비디오 영역 (화면에 보이는 부분만)
+ * iframe 안의 비디오는 상위 프레임의 iframe 위치를 더함 (교차 출처라 위치를 알 수 없으면 null)
+ */
+export function getCaptureRect(video: HTMLVideoElement): CaptureRect | null {
+  const rect = video.getBoundingClientRect();
+  let left = Math.max(0, rect.left);
+  let top = Math.max(0, rect.top);
+  let right = Math.min(window.innerWidth, rect.right);
+  let bottom = Math.min(window.innerHeight, rect.bottom);
+
+  try {
+    let frameWindow: Window = window;
+    while (frameWindow !== window.top) {
+      const frameElement = frameWindow.frameElement;
+      if (!frameElement) return null;
+      const frameRect = frameElement.getBoundingClientRect();
+      const offsetX = frameRect.left + frameElement.clientLeft;
+      const offsetY = frameRect.top + frameElement.clientTop;
+      left = Math.max(0, left + offsetX);
+      right += offsetX;
+      top = Math.max(0, top + offsetY);
+      bottom += offsetY;
+      frameWindow = frameWindow.parent;
+    }
+    if (window.top) {
+      right = Math.min(window.top.innerWidth, right);
+      bottom = Math.min(window.top.innerHeight, bottom);
+    }
+  } catch {
+    return null;
+  }
+
+  if (right <= left || bottom <= top) return null;
+  return { left, top, width: right - left, height: bottom - top };
+}
+
+/**
+ * 탭 화면 캡처 이미지에서 비디오 영역만 잘라냄 (가장 긴 변 maxSize px)
+ * 캡처 이미지는 기기 픽셀 단위이므로 devicePixelRatio를 곱함
+ * 영역을 모르면(null) 전체 화면을 원본 크기로 사용
+ */
+export async function cropScreenshot(
+  dataUrl: string,
+  rect: CaptureRect | null,
+  maxSize: number
+): Promise<{ imageBase64: string; width: number; height: number }> {
+  const image = new Image();
+  image.src = dataUrl;
+  await image.decode();
+
+  const ratio = window.devicePixelRatio || 1;
+  const sx = rect ? Math.max(0, Math.round(rect.left * ratio)) : 0;
+  const sy = rect ? Math.max(0, Math.round(rect.top * ratio)) : 0;
+  const sw = rect ? Math.min(image.naturalWidth - sx, Math.round(rect.width * ratio)) : image.naturalWidth;
+  const sh = rect ? Math.min(image.naturalHeight - sy, Math.round(rect.height * ratio)) : image.naturalHeight;
+  if (sw <= 0 || sh <= 0) {
+    throw new Error('비디오 영역이 캡처 화면 밖에 있습니다');
+  }
+
+  const scale = rect ? Math.min(1, maxSize / Math.max(sw, sh)) : 1;
+  const canvas = document.createElement('canvas');
+  canvas.width = Math.floor(sw * scale);
+  canvas.height = Math.floor(sh * scale);
+  const ctx = canvas.getContext('2d');
+  if (!ctx) {
+    throw new Error('Canvas context를 가져올 수 없습니다');
+  }
+  ctx.drawImage(image, sx, sy, sw, sh, 0, 0, canvas.width, canvas.height);
+
+  return {
+    imageBase64: canvas.toDataURL('image/jpeg', 0.7).split(',')[1],
+    width: canvas.width,
+    height: canvas.height
+  };
+}
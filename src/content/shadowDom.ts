@@ -0,0 +1,123 @@
+/**
+ * 열린 shadow root 탐색
+ * 웹 컴포넌트로 만든 플레이어는 <video>가 shadow DOM 안에 있어 document.querySelectorAll로 찾을 수 없음
+ * (닫힌 shadow root는 Content Script에서도 접근할 수 없음)
+ */
+
+type QueryRoot = Document | ShadowRoot;
+
+/**
+ * root 아래의 모든 열린 shadow root (중첩 포함)
+ */
+export function getOpenShadowRoots(root: QueryRoot | Element = document): ShadowRoot[] {
+  const roots: ShadowRoot[] = [];
+  root.querySelectorAll('*').forEach(element => {
+    if (element.shadowRoot) {
+      roots.push(element.shadowRoot, ...getOpenShadowRoots(element.shadowRoot));
+    }
+  });
+  return roots;
+}
+
+/**
+ * shadow DOM까지 포함한 querySelectorAll
+ */
+export function querySelectorAllDeep<E extends Element = Element>(selector: string, root: QueryRoot = document): E[] {
+  return [root, ...getOpenShadowRoots(root)].flatMap(scope => Array.from(scope.querySelectorAll<E>(selector)));
+}
+
+/**
+ * shadow DOM까지 포함한 querySelector (일반 DOM 우선)
+ */
+export function querySelectorDeep<E extends Element = Element>(selector: string, root: QueryRoot = document): E | null {
+  return root.querySelector<E>(selector) || querySelectorAllDeep<E>(selector, root)[0] || null;
+}
+
+/**
+ * root 안에서 요소를 가리키는 CSS 선택자 (고유한 id가 있으면 id부터, 없으면 nth-of-type 경로)
+ */
+function buildSelector(element: Element, root: QueryRoot): string {
+  const parts: string[] = [];
+  let current: Element | null = element;
+
+  while (current) {
+    if (current.id && root.querySelectorAll(`#${CSS.escape(current.id)}`).length === 1) {
+      parts.unshift(`#${CSS.escape(current.id)}`);
+      break;
+    }
+
+    const tag = current.tagName.toLowerCase();
+    const siblings = Array.from(current.parentNode?.children || []).filter(sibling => sibling.tagName === current!.tagName);
+    parts.unshift(siblings.length > 1 ? `${tag}:nth-of-type(${siblings.indexOf(current) + 1})` : tag);
+    current = current.parentElement;
+  }
+
+  return parts.join(' > ');
+}
+
+/**
+ * 요소 경로: 문서에서 shadow host를 차례로 거쳐 요소까지 가는 선택자 목록
+ * 예: ['#lesson > course-player', 'div > video'] (#lesson 안의 course-player shadow root 속 video)
+ */
+export function getElementPath(element: Element): string[] {
+  const path: string[] = [];
+  let current = element;
+
+  for (;;) {
+    const root = current.getRootNode();
+    if (root instanceof ShadowRoot) {
+      path.unshift(buildSelector(current, root));
+      current = root.host;
+    } else {
+      path.unshift(buildSelector(current, document));
+      return path;
+    }
+  }
+}
+
+/**
+ * 선택자 하나를 root에서 찾기
+ * shadow root 안의 경로는 root에 고정되지 않아 querySelector가 더 깊은 요소와 맞을 수 있으므로
+ * 각 단계를 직계 자식 중에서 태그와 순서(nth-of-type)로 찾아 내려감
+ */
+function resolveSelector(selector: string, root: QueryRoot): Element | null {
+  let steps = selector.split(' > ');
+  let element: Element | null = null;
+
+  // 고유한 id에서 시작하는 경로
+  if (steps[0].startsWith('#')) {
+    element = root.querySelector(steps[0]);
+    if (!element) return null;
+    steps = steps.slice(1);
+  }
+
+  for (const step of steps) {
+    const match = step.match(/^([^:]+)(?::nth-of-type\((\d+)\))?$/);
+    if (!match) return null;
+    const [, tag, nth] = match;
+    const children: Element[] = Array.from(element ? element.children : root.children);
+    element = children.filter(child => child.tagName.toLowerCase() === tag)[nth ? Number(nth) - 1 : 0] || null;
+    if (!element) return null;
+  }
+
+  return element;
+}
+
+/**
+ * getElementPath로 만든 경로의 요소 찾기 (중간 host의 shadow root가 없으면 null)
+ */
+export function findElementByPath(path: string[]): Element | null {
+  let root: QueryRoot = document;
+  let element: Element | null = null;
+
+  for (const [index, selector] of path.entries()) {
+    element = resolveSelector(selector, root);
+    if (!element) return null;
+    if (index < path.length - 1) {
+      if (!element.shadowRoot) return null;
+      root = element.shadowRoot;
+    }
+  }
+
+  return element;
+}
@@ -1,4 +1,16 @@
 import type { VideoInfo, DetectedStream, StreamType } from '../types';
+import { PLATFORM_ADAPTERS } from './platforms';
+import { getElementPath, querySelectorAllDeep } from './shadowDom';
+import {
+  findOEmbedUrl,
+  matchesVideo,
+  mergeVideoMetadata,
+  readJsonLdVideos,
+  readOpenGraphVideo,
+  toOEmbedMetadata,
+  type OEmbedResponse,
+  type PageVideoMetadata
+} from './metadata';
 
 /**
  * 현재 페이지에서 비디오를 감지하고 정보를 추출하는 클래스
@@ -8,136 +20,108 @@ export class VideoDetector {
   // 감지된 비디오 소스 저장
   private detectedSources: DetectedStream[] = [];
 
+  // 페이지별 oEmbed 결과 (Background를 통해 가져온 뒤 재사용)
+  private oEmbed: { pageUrl: string; metadata: PageVideoMetadata | null } | null = null;
+
   /**
    * 페이지에서 모든 비디오 감지
    */
   detectAll(): VideoInfo[] {
     const videos: VideoInfo[] = [];
 
-    // 1. YouTube 확인
-    const youtubeInfo = this.detectYouTube();
-    if (youtubeInfo) videos.push(youtubeInfo);
-
-    // 2. Vimeo 확인
-    const vimeoInfo = this.detectVimeo();
-    if (vimeoInfo) videos.push(vimeoInfo);
+    // 1. 플랫폼 페이지 (YouTube, Vimeo 등) 및 스크립트로 삽입된 플레이어
+    const url = window.location.href;
+    for (const adapter of PLATFORM_ADAPTERS) {
+      if (adapter.matchUrl(url)) {
+        videos.push(...adapter.detect());
+      }
+      videos.push(...(adapter.detectEmbedded?.() || []));
+    }
 
-    // 3. 일반 HTML5 비디오 확인
+    // 2. 일반 HTML5 비디오 확인
     const html5Videos = this.detectAllHTML5Videos();
     videos.push(...html5Videos);
 
-    // 4. iframe 내 비디오 확인
+    // 3. iframe 내 비디오 확인
     const iframeVideos = this.detectIframeVideos();
     videos.push(...iframeVideos);
 
-    // 5. 소스 태그 분석
+    // 4. 소스 태그 분석
     const sourceVideos = this.detectSourceTags();
     videos.push(...sourceVideos);
 
-    // 중복 제거
-    return this.deduplicateVideos(videos);
+    // 중복 제거 후 페이지 메타데이터(JSON-LD, oEmbed, Open Graph) 병합
+    return this.applyPageMetadata(this.deduplicateVideos(videos));
   }
 
   /**
-   * 메인 비디오 하나만 반환 (기존 호환성)
+   * 현재 페이지의 oEmbed 정보 가져오기 (페이지 URL이 바뀔 때만 다시 요청)
+   * oEmbed 엔드포인트는 대부분 CORS를 허용하지 않으므로 Background에서 요청
    */
-  detect(): VideoInfo | null {
-    const videos = this.detectAll();
-    return videos.length > 0 ? videos[0] : null;
+  async loadOEmbed(): Promise<void> {
+    const pageUrl = window.location.href;
+    if (this.oEmbed?.pageUrl === pageUrl) return;
+
+    const oEmbedUrl = findOEmbedUrl();
+    let metadata: PageVideoMetadata | null = null;
+    if (oEmbedUrl) {
+      const response: { data?: OEmbedResponse } | null = await chrome.runtime.sendMessage({
+        type: 'FETCH_OEMBED',
+        url: oEmbedUrl
+      }).catch(() => null);
+      metadata = response?.data ? toOEmbedMetadata(response.data) : null;
+    }
+    this.oEmbed = { pageUrl, metadata };
   }
 
   /**
-   * YouTube 비디오 감지
+   * 구조화 데이터로 제목/길이/썸네일 등 보강
+   * 파일·플레이어 URL이 일치하는 항목을 우선 적용하고, 페이지 전체를 설명하는 정보(oEmbed, 단일 JSON-LD)는 페이지의 첫 비디오에만 적용
    */
-  private detectYouTube(): VideoInfo | null {
-    const url = window.location.href;
-    
-    if (!url.includes('youtube.com') && !url.includes('youtu.be')) {
-      return null;
-    }
-
-    const videoId = this.extractYouTubeVideoId(url);
-    if (!videoId) return null;
-
-    // 비디오 제목 추출 (여러 셀렉터 시도)
-    const titleSelectors = [
-      'h1.ytd-video-primary-info-renderer',
-      'h1.ytd-watch-metadata yt-formatted-string',
-      '#title h1 yt-formatted-string',
-      'meta[name="title"]'
-    ];
-    
-    let title = document.title.replace(' - YouTube', '');
-    for (const selector of titleSelectors) {
-      const el = document.querySelector(selector);
-      if (el?.textContent?.trim()) {
-        title = el.textContent.trim();
-        break;
-      }
-    }
-
-    // 비디오 길이 추출
-    const durationElement = document.querySelector('.ytp-time-duration');
-    const duration = durationElement ? this.parseDuration(durationElement.textContent || '') : undefined;
-
-    return {
-      platform: 'youtube',
-      videoId,
-      title,
-      duration,
-      url,
-      thumbnailUrl: `https://img.youtube.com/vi/${videoId}/maxresdefault.jpg`
-    };
+  private applyPageMetadata(videos: VideoInfo[]): VideoInfo[] {
+    const pageUrl = window.location.href;
+    const jsonLd = readJsonLdVideos();
+    const openGraph = readOpenGraphVideo();
+    const oEmbed = this.oEmbed?.pageUrl === pageUrl ? this.oEmbed.metadata : null;
+    const mainIndex = videos.findIndex(video => video.url === pageUrl);
+
+    return videos.map((video, index) => {
+      const isMainVideo = index === mainIndex;
+      const sources = [
+        ...jsonLd.filter(metadata => matchesVideo(metadata, video) || (isMainVideo && jsonLd.length === 1)),
+        ...(isMainVideo && oEmbed ? [oEmbed] : []),
+        ...(openGraph && (isMainVideo || matchesVideo(openGraph, video)) ? [openGraph] : [])
+      ];
+      if (sources.length === 0) return video;
+      return mergeVideoMetadata(video, sources, video.platform !== 'html5');
+    });
   }
 
   /**
-   * YouTube 비디오 ID 추출
+   * 페이지 JSON-LD에 포함된 비디오 스크립트 (자막 트랙이 없을 때 사용)
    */
-  private extractYouTubeVideoId(url: string): string | null {
-    const patterns = [
-      /(?:youtube\.com\/watch\?v=|youtu\.be\/|youtube\.com\/embed\/)([^&\n?#]+)/,
-      /youtube\.com\/shorts\/([^&\n?#]+)/,
-      /youtube\.com\/live\/([^&\n?#]+)/
-    ];
-
-    for (const pattern of patterns) {
-      const match = url.match(pattern);
-      if (match) return match[1];
-    }
-    return null;
+  getStructuredTranscript(sourceUrl?: string): string | undefined {
+    const withTranscript = readJsonLdVideos().filter(metadata => metadata.transcript);
+    const matched = sourceUrl
+      ? withTranscript.find(metadata => matchesVideo(metadata, { platform: 'html5', url: sourceUrl, sourceUrl }))
+      : undefined;
+    return (matched || (withTranscript.length === 1 ? withTranscript[0] : undefined))?.transcript;
   }
 
   /**
-   * Vimeo 비디오 감지
+   * 메인 비디오 하나만 반환 (기존 호환성)
    */
-  private detectVimeo(): VideoInfo | null {
-    const url = window.location.href;
-    
-    if (!url.includes('vimeo.com')) {
-      return null;
-    }
-
-    const videoIdMatch = url.match(/vimeo\.com\/(\d+)/);
-    if (!videoIdMatch) return null;
-
-    const videoId = videoIdMatch[1];
-    const title = document.querySelector('h1')?.textContent?.trim() || document.title;
-
-    return {
-      platform: 'vimeo',
-      videoId,
-      title,
-      url,
-      thumbnailUrl: `https://vumbnail.com/${videoId}.jpg`
-    };
+  detect(): VideoInfo | null {
+    const videos = this.detectAll();
+    return videos.length > 0 ? videos[0] : null;
   }
 
   /**
-   * 모든 HTML5 비디오 감지
+   * 모든 HTML5 비디오 감지 (열린 shadow root 안의 비디오 포함)
    */
   private detectAllHTML5Videos(): VideoInfo[] {
     const videos: VideoInfo[] = [];
-    const videoElements = document.querySelectorAll('video');
+    const videoElements = querySelectorAllDeep<HTMLVideoElement>('video');
 
     videoElements.forEach((video, index) => {
       const rect = video.getBoundingClientRect();
@@ -164,7 +148,8 @@ export class VideoDetector {
         duration: isFinite(video.duration) ? video.duration : undefined,
         url: window.location.href,
         sourceUrl: isBlobUrl ? undefined : sourceUrl,
-        streams: this.extractVideoSources(video)
+        streams: this.extractVideoSources(video),
+        elementPath: getElementPath(video)
       };
 
       videos.push(info);
@@ -184,8 +169,11 @@ export class VideoDetector {
     const ariaLabel = video.getAttribute('aria-label');
     if (ariaLabel) return ariaLabel;
 
-    // 3. 가장 가까운 제목 요소 찾기
-    const parent = video.closest('article, section, div[class*="video"], div[class*="player"]');
+    // 3. 가장 가까운 제목 요소 찾기 (shadow DOM 안이면 플레이어 요소 바깥에서)
+    const containerSelector = 'article, section, div[class*="video"], div[class*="player"]';
+    const root = video.getRootNode();
+    const parent = video.closest(containerSelector)
+      || (root instanceof ShadowRoot ? root.host.closest(containerSelector) : null);
     if (parent) {
       const heading = parent.querySelector('h1, h2, h3, h4, [class*="title"]');
       if (heading?.textContent) return heading.textContent.trim();
@@ -242,34 +230,17 @@ export class VideoDetector {
    */
   private detectIframeVideos(): VideoInfo[] {
     const videos: VideoInfo[] = [];
-    const iframes = document.querySelectorAll('iframe');
+    const iframes = querySelectorAllDeep<HTMLIFrameElement>('iframe');
 
     iframes.forEach(iframe => {
       const src = iframe.src || iframe.getAttribute('data-src') || '';
       
-      // YouTube embed
-      const ytMatch = src.match(/youtube\.com\/embed\/([^?&]+)/);
-      if (ytMatch) {
-        videos.push({
-          platform: 'youtube',
-          videoId: ytMatch[1],
-          title: iframe.title || 'YouTube 비디오',
-          url: src,
-          thumbnailUrl: `https://img.youtube.com/vi/${ytMatch[1]}/maxresdefault.jpg`
-        });
-        return;
-      }
-
-      // Vimeo embed
-      const vimeoMatch = src.match(/player\.vimeo\.com\/video\/(\d+)/);
-      if (vimeoMatch) {
-        videos.push({
-          platform: 'vimeo',
-          videoId: vimeoMatch[1],
-          title: iframe.title || 'Vimeo 비디오',
-          url: src,
-          thumbnailUrl: `https://vumbnail.com/${vimeoMatch[1]}.jpg`
-        });
+      // 플랫폼 플레이어 embed
+      const embed = PLATFORM_ADAPTERS
+        .map(adapter => adapter.detectEmbed?.(src, iframe))
+        .find((info): info is VideoInfo => !!info);
+      if (embed) {
+        videos.push({ ...embed, isEmbed: true });
         return;
       }
 
@@ -278,7 +249,8 @@ export class VideoDetector {
         videos.push({
           platform: 'html5',
           title: iframe.title || '임베드 비디오',
-          url: src
+          url: src,
+          isEmbed: true
         });
       }
     });
@@ -331,19 +303,6 @@ export class VideoDetector {
     });
   }
 
-  /**
-   * 시간 문자열을 초 단위로 변환
-   */
-  private parseDuration(durationStr: string): number {
-    const parts = durationStr.split(':').map(Number);
-    if (parts.length === 3) {
-      return parts[0] * 3600 + parts[1] * 60 + parts[2];
-    } else if (parts.length === 2) {
-      return parts[0] * 60 + parts[1];
-    }
-    return 0;
-  }
-
   /**
    * 스트림 추가 (외부에서 호출)
    */
@@ -0,0 +1,152 @@
+import { drawVideoFrame, isVideoReadable, MAX_FRAME_SIZE, type CapturedFrame } from './frameCapture';
+import { createSceneSampler, selectSceneChanges, SCENE_CHANGE_THRESHOLD } from './sceneDetection';
+import { cropScreenshot, getCaptureRect } from './screenCapture';
+
+// 장면 비교 간격 (재생 시간 기준, 초)
+const CHECK_INTERVAL = 2;
+
+// 모아 두는 최대 사진 수 (넘으면 변화가 가장 작은 사진부터 버림)
+const MAX_STORED_FRAMES = 60;
+
+/**
+ * 시청하며 캡처
+ * 재생 위치를 건드리지 않고, 사용자가 비디오를 보는 동안 화면을 모아 둠
+ * (복제 비디오로 캡처할 수 없는 스트리밍 비디오, 실시간 방송용)
+ * - 픽셀을 읽을 수 있으면 재생 2초마다 저해상도로 비교해 장면이 바뀔 때 캡처
+ * - 교차 출처 비디오는 intervalSeconds마다 탭 화면 캡처 (보이는 그대로, 스크롤하거나 겹친 요소를 숨기지 않음)
+ */
+export class WatchCapture {
+  private video: HTMLVideoElement | null = null;
+  private frames: CapturedFrame[] = [];
+  private active = false;
+  private intervalSeconds = 30;
+
+  // 장면 비교기 (교차 출처 비디오면 null → 화면 캡처)
+  private sample: ((video: HTMLVideoElement) => number) | null = null;
+  private canvas = document.createElement('canvas');
+
+  private lastCheck = -Infinity;   // 마지막으로 비교한 재생 위치
+  private lastCapture = -Infinity; // 마지막으로 화면 캡처한 재생 위치
+  private isCapturing = false;
+
+  private onTimeUpdate = () => {
+    this.check().catch(error => console.error('[Video Summarizer] 시청 중 캡처 실패:', error));
+  };
+
+  /**
+   * 캡처 시작 (다른 비디오로 바꾸면 모아 둔 사진 초기화)
+   */
+  start(video: HTMLVideoElement, intervalSeconds: number = 30) {
+    if (this.video !== video) {
+      this.stop();
+      this.video = video;
+      this.clearFrames();
+    }
+    if (this.active) return;
+
+    this.active = true;
+    this.intervalSeconds = intervalSeconds;
+    this.sample = isVideoReadable(video) ? createSceneSampler() : null;
+    video.addEventListener('timeupdate', this.onTimeUpdate);
+    console.log(`[Video Summarizer] 시청 중 캡처 시작 (${this.sample ? '장면 전환' : '화면 캡처'})`);
+  }
+
+  /**
+   * 캡처 중지 (모아 둔 사진은 분석에 쓸 수 있도록 유지)
+   */
+  stop() {
+    if (!this.active || !this.video) return;
+    this.video.removeEventListener('timeupdate', this.onTimeUpdate);
+    this.active = false;
+    console.log(`[Video Summarizer] 시청 중 캡처 중지 (${this.frames.length}장)`);
+  }
+
+  isActive(): boolean {
+    return this.active;
+  }
+
+  /**
+   * 모아 둔 사진 삭제 (페이지 이동으로 다른 비디오가 재생될 때)
+   */
+  clearFrames() {
+    this.frames = [];
+    this.lastCheck = -Infinity;
+    this.lastCapture = -Infinity;
+  }
+
+  /**
+   * 해당 비디오에서 모아 둔 사진 (최대 maxFrames장, 시간순)
+   * 변화 점수가 있으면 변화가 큰 장면 우선, 없으면 고르게 선택
+   */
+  getFrames(video: HTMLVideoElement, maxFrames: number): CapturedFrame[] {
+    if (video !== this.video || this.frames.length === 0) return [];
+    if (this.frames.length <= maxFrames) return [...this.frames];
+
+    if (this.frames.every(frame => frame.changeScore !== undefined)) {
+      const selected = selectSceneChanges(
+        this.frames.map(frame => ({ time: frame.timestamp, score: frame.changeScore! })),
+        { maxFrames, minSpacingSeconds: 0 }
+      );
+      return this.frames.filter(frame => selected.some(scene => scene.time === frame.timestamp));
+    }
+
+    return Array.from({ length: maxFrames }, (_, i) =>
+      this.frames[Math.round((i * (this.frames.length - 1)) / Math.max(1, maxFrames - 1))]
+    );
+  }
+
+  /**
+   * 재생 중 일정 간격마다 화면 확인
+   */
+  private async check() {
+    const video = this.video;
+    if (!video || video.paused || video.seeking || this.isCapturing) return;
+
+    // 앞뒤로 이동한 경우도 간격을 넘으면 바로 확인
+    const time = video.currentTime;
+    if (Math.abs(time - this.lastCheck) < CHECK_INTERVAL) return;
+    this.lastCheck = time;
+
+    if (this.sample) {
+      try {
+        const score = this.sample(video);
+        if (score >= SCENE_CHANGE_THRESHOLD) {
+          const ctx = this.canvas.getContext('2d');
+          if (ctx) this.addFrame({ ...drawVideoFrame(video, this.canvas, ctx), changeScore: score });
+        }
+        return;
+      } catch {
+        // 재생 도중 교차 출처 소스로 바뀐 경우
+        console.log('[Video Summarizer] 비디오 픽셀을 읽을 수 없어 화면 캡처로 전환');
+        this.sample = null;
+      }
+    }
+
+    if (Math.abs(time - this.lastCapture) < this.intervalSeconds) return;
+    this.lastCapture = time;
+    this.isCapturing = true;
+    try {
+      const rect = getCaptureRect(video);
+      const response = await chrome.runtime.sendMessage({ type: 'CAPTURE_SCREEN' });
+      if (response?.imageData) {
+        this.addFrame({ timestamp: time, ...await cropScreenshot(response.imageData, rect, MAX_FRAME_SIZE) });
+      }
+    } finally {
+      this.isCapturing = false;
+    }
+  }
+
+  /**
+   * 사진 추가 (같은 구간을 다시 보면 교체, 최대 개수를 넘으면 변화가 가장 작은 사진 제거)
+   */
+  private addFrame(frame: CapturedFrame) {
+    this.frames = this.frames.filter(existing => Math.abs(existing.timestamp - frame.timestamp) >= CHECK_INTERVAL);
+    this.frames.push(frame);
+    this.frames.sort((a, b) => a.timestamp - b.timestamp);
+
+    if (this.frames.length > MAX_STORED_FRAMES) {
+      const weakest = this.frames.reduce((min, current) => (current.changeScore ?? 0) < (min.changeScore ?? 0) ? current : min);
+      this.frames = this.frames.filter(existing => existing !== weakest);
+    }
+  }
+}
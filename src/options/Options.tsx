@@ -0,0 +1,320 @@
+import { useState, useEffect } from 'react';
+import {
+  loadSettings,
+  saveSettings,
+  DEFAULT_SETTINGS,
+  CHAT_MODELS,
+  VISION_MODELS,
+  GEMINI_MODELS,
+  ANTHROPIC_MODELS,
+  PROVIDER_LABELS,
+  type ExtensionSettings
+} from '../services/settings';
+import { validateApiKey, validateGeminiApiKey, validateProvider } from '../services/openai';
+import { AnthropicProvider, LocalProvider, type ProviderId } from '../services/providers';
+
+type ValidationStatus = 'idle' | 'checking' | 'valid' | 'invalid';
+
+// 검증 상태 표시 텍스트
+const STATUS_LABELS: Record<ValidationStatus, string> = {
+  idle: '',
+  checking: '확인 중...',
+  valid: '✅ 유효한 키입니다',
+  invalid: '❌ 키를 확인할 수 없습니다'
+};
+
+function Options() {
+  const [settings, setSettings] = useState<ExtensionSettings>(DEFAULT_SETTINGS);
+  const [isLoaded, setIsLoaded] = useState(false);
+  const [saveMessage, setSaveMessage] = useState('');
+  const [openaiStatus, setOpenaiStatus] = useState<ValidationStatus>('idle');
+  const [geminiStatus, setGeminiStatus] = useState<ValidationStatus>('idle');
+  const [anthropicStatus, setAnthropicStatus] = useState<ValidationStatus>('idle');
+  const [localStatus, setLocalStatus] = useState<ValidationStatus>('idle');
+
+  // 저장된 설정 불러오기
+  useEffect(() => {
+    loadSettings().then(loaded => {
+      setSettings(loaded);
+      setIsLoaded(true);
+    });
+  }, []);
+
+  const updateField = <K extends keyof ExtensionSettings>(key: K, value: ExtensionSettings[K]) => {
+    setSettings(prev => ({ ...prev, [key]: value }));
+    setSaveMessage('');
+    if (key === 'openaiApiKey') setOpenaiStatus('idle');
+    if (key === 'geminiApiKey') setGeminiStatus('idle');
+    if (key === 'anthropicApiKey') setAnthropicStatus('idle');
+    if (key === 'localEndpoint' || key === 'localModel') setLocalStatus('idle');
+  };
+
+  // OpenAI 키 검증 (선택한 채팅 모델로 짧은 요청)
+  const checkOpenaiKey = async () => {
+    if (!settings.openaiApiKey.trim()) return;
+    setOpenaiStatus('checking');
+    const isValid = await validateApiKey(settings.openaiApiKey.trim(), settings.chatModel);
+    setOpenaiStatus(isValid ? 'valid' : 'invalid');
+  };
+
+  // Gemini 키 검증
+  const checkGeminiKey = async () => {
+    if (!settings.geminiApiKey.trim()) return;
+    setGeminiStatus('checking');
+    const isValid = await validateGeminiApiKey(settings.geminiApiKey.trim());
+    setGeminiStatus(isValid ? 'valid' : 'invalid');
+  };
+
+  // Anthropic 키 검증
+  const checkAnthropicKey = async () => {
+    if (!settings.anthropicApiKey.trim()) return;
+    setAnthropicStatus('checking');
+    const isValid = await validateProvider(new AnthropicProvider({
+      apiKey: settings.anthropicApiKey.trim(),
+      model: settings.anthropicModel
+    }));
+    setAnthropicStatus(isValid ? 'valid' : 'invalid');
+  };
+
+  // 로컬 모델 엔드포인트 연결 확인
+  const checkLocalEndpoint = async () => {
+    if (!settings.localEndpoint.trim()) return;
+    setLocalStatus('checking');
+    const isValid = await validateProvider(new LocalProvider({
+      apiKey: '',
+      model: settings.localModel.trim(),
+      baseUrl: settings.localEndpoint.trim()
+    }));
+    setLocalStatus(isValid ? 'valid' : 'invalid');
+  };
+
+  const handleSave = async () => {
+    try {
+      await saveSettings({
+        ...settings,
+        openaiApiKey: settings.openaiApiKey.trim(),
+        geminiApiKey: settings.geminiApiKey.trim(),
+        anthropicApiKey: settings.anthropicApiKey.trim(),
+        backendApiUrl: settings.backendApiUrl.trim(),
+        localEndpoint: settings.localEndpoint.trim(),
+        localModel: settings.localModel.trim()
+      });
+      setSaveMessage('저장되었습니다.');
+    } catch (error) {
+      setSaveMessage(error instanceof Error ? `저장 실패: ${error.message}` : '저장 실패');
+    }
+  };
+
+  if (!isLoaded) {
+    return <div className="opt-page">불러오는 중...</div>;
+  }
+
+  return (
+    <div className="opt-page">
+      <header className="opt-header">
+        <h1>🎬 Video Summarizer 설정</h1>
+        <p>API 키는 이 브라우저의 로컬 저장소에만 저장됩니다.</p>
+      </header>
+
+      {/* 제공자 */}
+      <section className="opt-section">
+        <h2>🧠 AI 제공자</h2>
+        <label className="opt-field">
+          <span className="opt-label">자막/사진 분석 및 질문에 사용할 제공자</span>
+          <select
+            value={settings.provider}
+            onChange={(e) => updateField('provider', e.target.value as ProviderId)}
+          >
+            {(Object.keys(PROVIDER_LABELS) as ProviderId[]).map(id => (
+              <option key={id} value={id}>{PROVIDER_LABELS[id]}</option>
+            ))}
+          </select>
+          <span className="opt-hint">Gemini 비디오 분석은 제공자와 관계없이 백엔드 서버를 사용합니다.</span>
+        </label>
+      </section>
+
+      {/* API 키 */}
+      <section className="opt-section">
+        <h2>🔑 API 키</h2>
+
+        <div className="opt-field">
+          <span className="opt-label">OpenAI API 키</span>
+          <div className="opt-input-row">
+            <input
+              type="password"
+              value={settings.openaiApiKey}
+              onChange={(e) => updateField('openaiApiKey', e.target.value)}
+              placeholder="sk-..."
+              autoComplete="off"
+            />
+            <button
+              className="opt-secondary-btn"
+              onClick={checkOpenaiKey}
+              disabled={!settings.openaiApiKey.trim() || openaiStatus === 'checking'}
+            >
+              검증
+            </button>
+          </div>
+          {openaiStatus !== 'idle' && (
+            <span className={`opt-status ${openaiStatus}`}>{STATUS_LABELS[openaiStatus]}</span>
+          )}
+        </div>
+
+        <div className="opt-field">
+          <span className="opt-label">Gemini API 키</span>
+          <div className="opt-input-row">
+            <input
+              type="password"
+              value={settings.geminiApiKey}
+              onChange={(e) => updateField('geminiApiKey', e.target.value)}
+              placeholder="AIza..."
+              autoComplete="off"
+            />
+            <button
+              className="opt-secondary-btn"
+              onClick={checkGeminiKey}
+              disabled={!settings.geminiApiKey.trim() || geminiStatus === 'checking'}
+            >
+              검증
+            </button>
+          </div>
+          {geminiStatus !== 'idle' && (
+            <span className={`opt-status ${geminiStatus}`}>{STATUS_LABELS[geminiStatus]}</span>
+          )}
+        </div>
+
+        <div className="opt-field">
+          <span className="opt-label">Anthropic API 키</span>
+          <div className="opt-input-row">
+            <input
+              type="password"
+              value={settings.anthropicApiKey}
+              onChange={(e) => updateField('anthropicApiKey', e.target.value)}
+              placeholder="sk-ant-..."
+              autoComplete="off"
+            />
+            <button
+              className="opt-secondary-btn"
+              onClick={checkAnthropicKey}
+              disabled={!settings.anthropicApiKey.trim() || anthropicStatus === 'checking'}
+            >
+              검증
+            </button>
+          </div>
+          {anthropicStatus !== 'idle' && (
+            <span className={`opt-status ${anthropicStatus}`}>{STATUS_LABELS[anthropicStatus]}</span>
+          )}
+        </div>
+      </section>
+
+      {/* 로컬 모델 */}
+      <section className="opt-section">
+        <h2>💻 로컬 모델</h2>
+        <div className="opt-field">
+          <span className="opt-label">OpenAI 호환 엔드포인트</span>
+          <div className="opt-input-row">
+            <input
+              type="url"
+              value={settings.localEndpoint}
+              onChange={(e) => updateField('localEndpoint', e.target.value)}
+              placeholder="http://localhost:11434/v1"
+            />
+            <button
+              className="opt-secondary-btn"
+              onClick={checkLocalEndpoint}
+              disabled={!settings.localEndpoint.trim() || localStatus === 'checking'}
+            >
+              연결 확인
+            </button>
+          </div>
+          {localStatus !== 'idle' && (
+            <span className={`opt-status ${localStatus}`}>
+              {localStatus === 'valid' ? '✅ 연결되었습니다' : STATUS_LABELS[localStatus]}
+            </span>
+          )}
+          <span className="opt-hint">Ollama는 OLLAMA_ORIGINS에 chrome-extension://* 허용이 필요합니다.</span>
+        </div>
+        <label className="opt-field">
+          <span className="opt-label">모델 이름</span>
+          <input
+            type="text"
+            value={settings.localModel}
+            onChange={(e) => updateField('localModel', e.target.value)}
+            placeholder="llama3.1"
+          />
+        </label>
+      </section>
+
+      {/* 백엔드 */}
+      <section className="opt-section">
+        <h2>🌐 백엔드 서버</h2>
+        <label className="opt-field">
+          <span className="opt-label">백엔드 API URL</span>
+          <input
+            type="url"
+            value={settings.backendApiUrl}
+            onChange={(e) => updateField('backendApiUrl', e.target.value)}
+            placeholder="비워두면 기본 서버 사용"
+          />
+          <span className="opt-hint">Gemini 비디오 분석(Whisper + Gemini)에 사용됩니다.</span>
+        </label>
+      </section>
+
+      {/* 모델 */}
+      <section className="opt-section">
+        <h2>🤖 모델</h2>
+        <label className="opt-field">
+          <span className="opt-label">OpenAI 분석/채팅 모델</span>
+          <select
+            value={settings.chatModel}
+            onChange={(e) => updateField('chatModel', e.target.value)}
+          >
+            {CHAT_MODELS.map(model => (
+              <option key={model} value={model}>{model}</option>
+            ))}
+          </select>
+        </label>
+        <label className="opt-field">
+          <span className="opt-label">OpenAI 사진 분석(Vision) 모델</span>
+          <select
+            value={settings.visionModel}
+            onChange={(e) => updateField('visionModel', e.target.value)}
+          >
+            {VISION_MODELS.map(model => (
+              <option key={model} value={model}>{model}</option>
+            ))}
+          </select>
+        </label>
+        <label className="opt-field">
+          <span className="opt-label">Gemini 모델</span>
+          <select
+            value={settings.geminiModel}
+            onChange={(e) => updateField('geminiModel', e.target.value)}
+          >
+            {GEMINI_MODELS.map(model => (
+              <option key={model} value={model}>{model}</option>
+            ))}
+          </select>
+        </label>
+        <label className="opt-field">
+          <span className="opt-label">Anthropic 모델</span>
+          <select
+            value={settings.anthropicModel}
+            onChange={(e) => updateField('anthropicModel', e.target.value)}
+          >
+            {ANTHROPIC_MODELS.map(model => (
+              <option key={model} value={model}>{model}</option>
+            ))}
+          </select>
+        </label>
+      </section>
+
+      <footer className="opt-footer">
+        <button className="opt-primary-btn" onClick={handleSave}>💾 저장</button>
+        {saveMessage && <span className="opt-save-message">{saveMessage}</span>}
+      </footer>
+    </div>
+  );
+}
+
+export default Options;
@@ -0,0 +1,5 @@
+import { createRoot } from 'react-dom/client'
+import Options from './Options'
+import './options.css'
+
+createRoot(document.getElementById('options-root')!).render(<Options />)
@@ -0,0 +1,173 @@
+/**
+ * 비디오 분석 파이프라인
+ * 자막 가져오기 → 분석 실행을 한 곳에서 처리
+ * Side Panel, Background(팝업/컨텍스트 메뉴 등) 모두 이 모듈을 사용
+ */
+
+import type { AnalysisMode, CaptionSelection, VideoPlatform } from '../types';
+import {
+  getProvider,
+  getGeminiApiKey,
+  analyzeVideo,
+  analyzeVideoWithGemini,
+  analyzeVideoMultimodal,
+  capturePageFrames,
+  getPlatformTranscript,
+  getHTML5Transcript,
+  getSubtitleFileTranscript,
+  type VideoAnalysis,
+  type VideoTranscript,
+  type TranscriptSegment
+} from './openai';
+import { MAX_VISION_IMAGES } from './providers';
+
+// 분석 대상 비디오 정보
+export interface AnalysisTarget {
+  videoId?: string;
+  title: string;
+  url: string;
+  platform: string;
+  duration?: number;
+  sourceUrl?: string; // HTML5 비디오 소스 URL (자막 트랙 찾기용)
+  description?: string; // 페이지 구조화 데이터의 설명
+  subtitle?: { url: string; language?: string }; // 스트림 매니페스트의 자막 파일
+  frameId?: number; // 비디오가 있는 프레임 (자막 요청을 해당 프레임에만 보냄)
+  elementPath?: string[]; // 프레임 안의 비디오 요소 경로 (화면 캡처 대상)
+}
+
+export interface AnalysisOptions {
+  tabId?: number; // 자막을 가져올 탭 (생략 시 현재 활성 탭)
+  caption?: CaptionSelection; // 플랫폼 자막 트랙 (생략 시 자동 선택)
+  onProgress?: (step: number, message: string) => void;
+  onTranscript?: (transcript: string) => void; // 자막을 가져왔을 때 (기록 저장용)
+  confirmSeekCapture?: () => boolean | Promise<boolean>; // 화면 캡처를 위해 페이지 비디오를 멈추고 이동해도 되는지 (생략 시 이동하지 않음)
+}
+
+// 가져온 자막 (없으면 빈 문자열, 빈 배열)
+interface FetchedTranscript {
+  transcript: string;
+  segments: TranscriptSegment[];
+  language?: string;
+}
+
+/**
+ * 플랫폼별 자막 요청 (지원하지 않는 플랫폼은 null)
+ */
+function requestTranscript(target: AnalysisTarget, options: AnalysisOptions) {
+  if (target.platform === 'stream') {
+    return target.subtitle ? getSubtitleFileTranscript(target.subtitle.url, target.subtitle.language) : null;
+  }
+  const page = { tabId: options.tabId, frameId: target.frameId };
+  if (target.platform === 'html5') {
+    return getHTML5Transcript(target.sourceUrl, page);
+  }
+  if (target.videoId) {
+    return getPlatformTranscript(target.platform as VideoPlatform, target.videoId, page, options.caption);
+  }
+  return null;
+}
+
+/**
+ * 자막 가져오기 (플랫폼 자막 트랙, HTML5 비디오 <track> 자막, 스트림 자막 파일)
+ */
+async function fetchTranscript(
+  target: AnalysisTarget,
+  options: AnalysisOptions
+): Promise<FetchedTranscript> {
+  const request = requestTranscript(target, options);
+  if (!request) {
+    return { transcript: '', segments: [] };
+  }
+
+  options.onProgress?.(0, '자막을 가져오는 중...');
+  const transcriptData = await request;
+  if (transcriptData?.transcript) {
+    console.log('[Video Summarizer] 자막 가져오기 성공:', transcriptData.transcript.length, '자');
+    options.onTranscript?.(transcriptData.transcript);
+    return transcriptData;
+  }
+
+  console.log('[Video Summarizer] 자막 없음, 제목 기반 분석 진행');
+  return { transcript: '', segments: [] };
+}
+
+/**
+ * 비디오 분석 실행
+ * - transcript: 자막(없으면 제목) 기반 분석 (설정에서 선택한 LLM 제공자)
+ * - gemini: 백엔드(Whisper + Gemini)로 비디오 직접 분석
+ * - multimodal: 페이지에서 캡처한 화면 + 자막(있으면) 분석 (설정에서 선택한 LLM 제공자)
+ */
+export async function runAnalysis(
+  target: AnalysisTarget,
+  mode: AnalysisMode,
+  options: AnalysisOptions = {}
+): Promise<VideoAnalysis> {
+  // Gemini 비디오 분석 (비디오 URL 직접 분석)
+  if (mode === 'gemini') {
+    const geminiKey = await getGeminiApiKey();
+    if (!geminiKey) {
+      throw new Error('Gemini API 키가 설정되지 않았습니다. 설정 페이지에서 Gemini API 키를 입력해주세요.');
+    }
+
+    // 자막도 함께 가져오기 시도 (참고용)
+    const { transcript: transcriptText } = await fetchTranscript(target, options);
+
+    return analyzeVideoWithGemini(
+      target.url,
+      target.title,
+      transcriptText || undefined,
+      options.onProgress
+    );
+  }
+
+  // 자막 기반 분석 (선택한 LLM 제공자, 키가 없으면 에러)
+  const provider = await getProvider();
+
+  // 화면 + 자막 분석 (자막이 없는 화면 녹화, 슬라이드 강의 등)
+  if (mode === 'multimodal') {
+    if (!provider.supportsVision) {
+      throw new Error(`${provider.name} 제공자는 사진 분석을 지원하지 않습니다.`);
+    }
+
+    const { transcript: transcriptText } = await fetchTranscript(target, options);
+
+    options.onProgress?.(0, '장면 전환 지점을 찾아 화면을 캡처하는 중...');
+    const page = { tabId: options.tabId, frameId: target.frameId };
+    const captureOptions = { sampling: 'scene' as const, maxFrames: MAX_VISION_IMAGES };
+    let capture = await capturePageFrames(target.elementPath, captureOptions, page);
+
+    // 재생을 방해하지 않는 방법이 없으면 동의를 받고 페이지 비디오를 이동하며 캡처
+    if (capture.needsSeekConsent) {
+      if (!await options.confirmSeekCapture?.()) {
+        throw new Error('재생 중인 비디오를 멈추지 않고는 화면을 캡처할 수 없습니다. "시청하며 캡처"를 켜고 비디오를 재생한 뒤 다시 시도해주세요.');
+      }
+      options.onProgress?.(0, '비디오를 이동하며 화면을 캡처하는 중...');
+      capture = await capturePageFrames(target.elementPath, { ...captureOptions, allowSeek: true }, page);
+    }
+    const { frames, duration } = capture;
+
+    return analyzeVideoMultimodal(provider, {
+      videoId: target.videoId || target.url,
+      title: target.title,
+      duration: target.duration || duration,
+      description: target.description,
+      frames,
+      transcript: transcriptText || undefined
+    }, options.onProgress);
+  }
+
+  const { transcript: transcriptText, segments, language } = await fetchTranscript(target, options);
+
+  const transcript: VideoTranscript = {
+    videoId: target.videoId || target.url,
+    title: target.title,
+    platform: target.platform,
+    duration: target.duration,
+    description: target.description,
+    transcript: transcriptText || target.title, // 자막이 있으면 자막 사용, 없으면 제목
+    segments,
+    language
+  };
+
+  return analyzeVideo(provider, transcript, options.onProgress);
+}
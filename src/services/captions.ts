@@ -0,0 +1,111 @@
+/**
+ * YouTube 자막 트랙 선택
+ * 언어/종류(수동, 자동 생성)로 트랙을 고르고, 원하는 언어가 없으면 tlang 번역 사용
+ */
+
+import type { CaptionSelection, CaptionTrack } from '../types';
+
+// 선택 목록에 표시할 항목
+export interface CaptionOption {
+  value: string;            // <select> 값
+  label: string;
+  selection: CaptionSelection;
+}
+
+const LANGUAGE_NAMES: Record<string, string> = {
+  ko: '한국어',
+  en: '영어',
+  ja: '일본어',
+  zh: '중국어',
+  es: '스페인어',
+  fr: '프랑스어',
+  de: '독일어'
+};
+
+/**
+ * 언어 코드의 기본 부분 ("en-US" → "en")
+ */
+export function baseLanguage(code: string): string {
+  return code.toLowerCase().split(/[-_]/)[0];
+}
+
+/**
+ * 사용자 언어 (브라우저 설정, 기본 한국어)
+ */
+export function getPreferredLanguage(): string {
+  return baseLanguage(navigator.language || 'ko');
+}
+
+export function getLanguageName(code: string): string {
+  return LANGUAGE_NAMES[baseLanguage(code)] || code;
+}
+
+/**
+ * 선택 조건에 맞는 트랙 찾기 (selection이 없으면 자동 선택)
+ * 자동: 사용자 언어 수동 자막 → 사용자 언어 자동 생성 → 번역 가능한 수동 → 번역 가능한 자동 생성 → 첫 트랙
+ */
+export function selectCaptionTrack(
+  tracks: CaptionTrack[],
+  selection?: CaptionSelection,
+  preferredLanguage: string = getPreferredLanguage()
+): { track: CaptionTrack; translateTo?: string } | null {
+  if (tracks.length === 0) return null;
+
+  if (selection) {
+    const track = tracks.find(t =>
+      t.languageCode === selection.languageCode && (t.kind === 'asr') === (selection.kind === 'asr')
+    ) || tracks.find(t => t.languageCode === selection.languageCode);
+    if (track) {
+      return { track, translateTo: track.isTranslatable ? selection.translateTo : undefined };
+    }
+  }
+
+  const inLanguage = (t: CaptionTrack) => baseLanguage(t.languageCode) === preferredLanguage;
+  const isManual = (t: CaptionTrack) => t.kind !== 'asr';
+
+  const manual = tracks.find(t => inLanguage(t) && isManual(t));
+  if (manual) return { track: manual };
+
+  const generated = tracks.find(inLanguage);
+  if (generated) return { track: generated };
+
+  const translatable = tracks.find(t => t.isTranslatable && isManual(t)) || tracks.find(t => t.isTranslatable);
+  if (translatable) return { track: translatable, translateTo: preferredLanguage };
+
+  return { track: tracks.find(isManual) || tracks[0] };
+}
+
+/**
+ * 트랙 표시 이름
+ */
+export function getCaptionTrackLabel(track: CaptionTrack): string {
+  const name = track.name || getLanguageName(track.languageCode);
+  return track.kind === 'asr' ? `${name} (자동 생성)` : name;
+}
+
+/**
+ * 선택 목록 구성 (트랙별 항목 + 사용자 언어 트랙이 없으면 번역 항목)
+ */
+export function buildCaptionOptions(
+  tracks: CaptionTrack[],
+  preferredLanguage: string = getPreferredLanguage()
+): CaptionOption[] {
+  const options: CaptionOption[] = tracks.map(track => ({
+    value: `${track.languageCode}:${track.kind || ''}`,
+    label: getCaptionTrackLabel(track),
+    selection: { languageCode: track.languageCode, kind: track.kind }
+  }));
+
+  const hasPreferred = tracks.some(t => baseLanguage(t.languageCode) === preferredLanguage);
+  if (!hasPreferred) {
+    tracks.filter(t => t.isTranslatable).forEach(track => {
+      options.push({
+        value: `${track.languageCode}:${track.kind || ''}:${preferredLanguage}`,
+        label: `${getCaptionTrackLabel(track)} → ${getLanguageName(preferredLanguage)} 번역`,
+        selection: { languageCode: track.languageCode, kind: track.kind, translateTo: preferredLanguage }
+      });
+    });
+  }
+
+  return options;
+}
@@ -0,0 +1,167 @@
+/**
+ * 자막 분할 모듈
+ * "[m:ss] 텍스트" 형식의 타임스탬프 자막을 세그먼트 경계에서 구간(chunk)으로 나눔
+ */
+
+export interface TranscriptLine {
+  start?: number;   // 초 단위 (타임스탬프가 없으면 undefined)
+  text: string;
+}
+
+export interface TranscriptChunk {
+  index: number;
+  startSeconds?: number;
+  endSeconds?: number;  // 다음 구간의 시작 (마지막 구간은 영상 길이 또는 마지막 세그먼트)
+  text: string;         // 타임스탬프가 포함된 원본 텍스트
+}
+
+// 줄 앞의 [m:ss] / [h:mm:ss] 타임스탬프
+const TIMESTAMP_PATTERN = /^\[(\d{1,3}(?::\d{1,2}){1,2})\]\s*/;
+
+/**
+ * "h:mm:ss" / "m:ss" 문자열을 초 단위로 변환
+ */
+export function parseTimestamp(value: string): number | undefined {
+  const parts = value.trim().split(':').map(Number);
+  if (parts.length < 2 || parts.length > 3 || parts.some(isNaN)) return undefined;
+  return parts.reduce((total, part) => total * 60 + part, 0);
+}
+
+/**
+ * ISO 8601 기간을 초 단위로 변환 (PT1H2M3.5S → 3723.5, DASH 매니페스트와 JSON-LD에서 사용)
+ */
+export function parseISODuration(value?: string): number | undefined {
+  if (!value) return undefined;
+  const match = value.match(/^P(?:(\d+(?:\.\d+)?)D)?(?:T(?:(\d+(?:\.\d+)?)H)?(?:(\d+(?:\.\d+)?)M)?(?:(\d+(?:\.\d+)?)S)?)?$/);
+  if (!match) return undefined;
+  const [, days, hours, minutes, seconds] = match;
+  return (parseFloat(days || '0') * 86400)
+    + (parseFloat(hours || '0') * 3600)
+    + (parseFloat(minutes || '0') * 60)
+    + parseFloat(seconds || '0');
+}
+
+/**
+ * 초를 m:ss (1시간 이상이면 h:mm:ss) 형식으로 변환
+ */
+export function formatSeconds(seconds: number): string {
+  const hrs = Math.floor(seconds / 3600);
+  const mins = Math.floor((seconds % 3600) / 60);
+  const secs = Math.floor(seconds % 60);
+  if (hrs > 0) {
+    return `${hrs}:${mins.toString().padStart(2, '0')}:${secs.toString().padStart(2, '0')}`;
+  }
+  return `${mins}:${secs.toString().padStart(2, '0')}`;
+}
+
+/**
+ * 자막 텍스트를 세그먼트(줄) 단위로 분리
+ */
+export function parseTranscriptLines(transcript: string): TranscriptLine[] {
+  return transcript
+    .split('\n')
+    .map(line => line.trim())
+    .filter(Boolean)
+    .map(line => {
+      const match = line.match(TIMESTAMP_PATTERN);
+      if (!match) return { text: line };
+      return { start: parseTimestamp(match[1]), text: line.substring(match[0].length) };
+    });
+}
+
+/**
+ * 타임스탬프가 없는 긴 줄을 문장 경계에서 나눔
+ */
+function splitLongLine(line: string, maxChars: number): string[] {
+  if (line.length <= maxChars) return [line];
+
+  const sentences = line.match(/[^.!?。]+[.!?。]*\s*/g) || [line];
+  const pieces: string[] = [];
+  let current = '';
+
+  for (const sentence of sentences) {
+    if (current && current.length + sentence.length > maxChars) {
+      pieces.push(current.trim());
+      current = '';
+    }
+    // 문장 하나가 한도를 넘으면 강제로 자름
+    if (sentence.length > maxChars) {
+      for (let i = 0; i < sentence.length; i += maxChars) {
+        pieces.push(sentence.substring(i, i + maxChars).trim());
+      }
+      continue;
+    }
+    current += sentence;
+  }
+  if (current.trim()) pieces.push(current.trim());
+
+  return pieces;
+}
+
+/**
+ * 자막을 maxChars 이하의 구간으로 분할 (세그먼트 중간에서 자르지 않음)
+ * @param totalDuration 마지막 구간의 끝 시간 (초)
+ */
+export function splitTranscriptIntoChunks(
+  transcript: string,
+  maxChars: number,
+  totalDuration?: number
+): TranscriptChunk[] {
+  const lines = parseTranscriptLines(transcript).flatMap(line =>
+    splitLongLine(line.text, maxChars).map((text, i) => ({
+      start: i === 0 ? line.start : undefined,
+      text
+    }))
+  );
+
+  const chunks: TranscriptChunk[] = [];
+  let currentLines: string[] = [];
+  let currentLength = 0;
+  let currentStart: number | undefined;
+
+  const flush = () => {
+    if (currentLines.length === 0) return;
+    chunks.push({
+      index: chunks.length,
+      startSeconds: currentStart,
+      text: currentLines.join('\n')
+    });
+    currentLines = [];
+    currentLength = 0;
+    currentStart = undefined;
+  };
+
+  for (const line of lines) {
+    const formatted = line.start !== undefined ? `[${formatSeconds(line.start)}] ${line.text}` : line.text;
+    if (currentLength > 0 && currentLength + formatted.length + 1 > maxChars) {
+      flush();
+    }
+    if (currentLines.length === 0) {
+      currentStart = line.start;
+    } else if (currentStart === undefined && line.start !== undefined) {
+      currentStart = line.start;
+    }
+    currentLines.push(formatted);
+    currentLength += formatted.length + 1;
+  }
+  flush();
+
+  // 각 구간의 끝 시간 = 다음 구간의 시작
+  chunks.forEach((chunk, i) => {
+    const next = chunks.slice(i + 1).find(c => c.startSeconds !== undefined);
+    chunk.endSeconds = next?.startSeconds ?? (chunk.startSeconds !== undefined ? totalDuration : undefined);
+  });
+
+  return chunks;
+}
+
+/**
+ * 구간의 시간 범위 표시 ("12:30~25:10", 타임스탬프가 없으면 "구간 N")
+ */
+export function formatChunkRange(chunk: { index: number; startSeconds?: number; endSeconds?: number }): string {
+  if (chunk.startSeconds === undefined) {
+    return `구간 ${chunk.index + 1}`;
+  }
+  const end = chunk.endSeconds !== undefined ? formatSeconds(chunk.endSeconds) : '끝';
+  return `${formatSeconds(chunk.startSeconds)}~${end}`;
+}
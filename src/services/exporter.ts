@@ -0,0 +1,521 @@
+/**
+ * 분석 결과 내보내기
+ * 요약, 목차(비디오 위치 링크 포함), 키워드, 인사이트, 주요 장면을 Markdown / HTML / JSON / PDF로 변환해 다운로드
+ */
+
+import type { VideoAnalysis } from './openai';
+import { formatSeconds } from './chunking';
+import { buildPdf, A4_WIDTH_PT, A4_HEIGHT_PT, type PdfLink, type PdfPage } from './pdf';
+
+export type ExportFormat = 'markdown' | 'html' | 'json' | 'pdf';
+
+export const EXPORT_FORMAT_LABELS: Record<ExportFormat, string> = {
+  markdown: 'Markdown (.md)',
+  html: 'HTML (.html)',
+  json: 'JSON (.json)',
+  pdf: 'PDF (.pdf)'
+};
+
+// JSON 내보내기 문서 버전 (구조가 바뀌면 올림)
+export const EXPORT_JSON_VERSION = 1;
+
+// 내보낼 분석 결과와 원본 비디오 정보
+export interface ExportSource {
+  analysis: VideoAnalysis;
+  title: string;
+  url: string;        // 비디오(페이지) URL
+  platform: string;
+  videoId?: string;
+}
+
+const DIFFICULTY_LABELS: Record<string, string> = {
+  beginner: '초급',
+  intermediate: '중급',
+  advanced: '고급'
+};
+
+/**
+ * 특정 위치로 바로 이동하는 비디오 링크
+ */
+export function buildTimestampUrl(source: Pick<ExportSource, 'url' | 'platform' | 'videoId'>, seconds: number): string {
+  const time = Math.floor(seconds);
+  try {
+    if (source.platform === 'youtube') {
+      const url = source.videoId
+        ? new URL(`https://www.youtube.com/watch?v=${encodeURIComponent(source.videoId)}`)
+        : new URL(source.url);
+      url.searchParams.set('t', `${time}s`);
+      return url.href;
+    }
+
+    const url = new URL(source.url);
+
+    // 시간 쿼리를 지원하는 플랫폼 (Twitch ?t=1h2m3s, Dailymotion ?start=30, Loom ?t=30)
+    if (source.platform === 'twitch') {
+      const h = Math.floor(time / 3600);
+      const m = Math.floor((time % 3600) / 60);
+      url.searchParams.set('t', `${h}h${m}m${time % 60}s`);
+      return url.href;
+    }
+    if (source.platform === 'dailymotion' || source.platform === 'loom') {
+      url.searchParams.set(source.platform === 'dailymotion' ? 'start' : 't', String(time));
+      return url.href;
+    }
+
+    // Vimeo는 #t=30s, 일반 비디오 파일은 미디어 프래그먼트 #t=30
+    url.hash = source.platform === 'vimeo' ? `t=${time}s` : `t=${time}`;
+    return url.href;
+  } catch {
+    return source.url;
+  }
+}
+
+/**
+ * 파일 이름에 쓸 수 없는 문자 제거
+ */
+function toFileName(title: string, extension: string): string {
+  const base = title
+    .replace(/[\\/:*?"<>|\n\r\t]/g, ' ')
+    .replace(/\s+/g, ' ')
+    .trim()
+    .substring(0, 80) || 'video-summary';
+  return `${base}.${extension}`;
+}
+
+function escapeHtml(text: string): string {
+  return text
+    .replace(/&/g, '&amp;')
+    .replace(/</g, '&lt;')
+    .replace(/>/g, '&gt;')
+    .replace(/"/g, '&quot;');
+}
+
+/**
+ * 키워드 "이름: 설명" 분리
+ */
+function splitKeyword(keyword: string): { name: string; description?: string } {
+  const [name, ...rest] = keyword.split(':');
+  const description = rest.join(':').trim();
+  return { name: name.trim(), description: description || undefined };
+}
+
+/**
+ * 메타 정보 줄 (길이, 카테고리, 난이도)
+ */
+function getMetaItems(analysis: VideoAnalysis): string[] {
+  const items: string[] = [];
+  if (analysis.duration) items.push(`길이 ${formatSeconds(analysis.duration)}`);
+  if (analysis.category) items.push(analysis.category);
+  if (analysis.difficulty) items.push(DIFFICULTY_LABELS[analysis.difficulty] || analysis.difficulty);
+  return items;
+}
+
+/**
+ * Markdown 문서
+ */
+export function toMarkdown(source: ExportSource): string {
+  const { analysis } = source;
+  const lines: string[] = [`# ${source.title}`, '', `- 원본: <${source.url}>`];
+
+  const meta = getMetaItems(analysis);
+  if (meta.length > 0) lines.push(`- ${meta.join(' · ')}`);
+
+  lines.push('', '## 요약', '', analysis.summary, '', '## 목차', '');
+
+  analysis.tableOfContents.forEach((item, i) => {
+    const time = item.timestampSeconds !== undefined
+      ? ` ([▶ ${formatSeconds(item.timestampSeconds)}](${buildTimestampUrl(source, item.timestampSeconds)}))`
+      : '';
+    lines.push(`### ${i + 1}. ${item.title}${time}`, '');
+    if (item.description) lines.push(`*${item.description}*`, '');
+    if (item.summary && item.summary !== item.description) lines.push(item.summary, '');
+    item.keyPoints.forEach(point => lines.push(`- ${point}`));
+    if (item.keyPoints.length > 0) lines.push('');
+  });
+
+  if (analysis.keywords.length > 0) {
+    lines.push('## 키워드', '');
+    analysis.keywords.forEach(keyword => {
+      const { name, description } = splitKeyword(keyword);
+      lines.push(description ? `- **${name}**: ${description}` : `- **${name}**`);
+    });
+    lines.push('');
+  }
+
+  if (analysis.keyInsights.length > 0) {
+    lines.push('## 핵심 인사이트', '');
+    analysis.keyInsights.forEach((insight, i) => lines.push(`${i + 1}. ${insight}`));
+    lines.push('');
+  }
+
+  if (analysis.keyFrames && analysis.keyFrames.length > 0) {
+    lines.push('## 주요 장면', '');
+    analysis.keyFrames.forEach(kf => {
+      lines.push(`### [${kf.timestamp}](${buildTimestampUrl(source, kf.timestampSeconds)}) ${kf.description}`, '');
+      if (kf.imageBase64) {
+        lines.push(`![${kf.description.replace(/[[\]]/g, '')}](data:image/jpeg;base64,${kf.imageBase64})`, '');
+      }
+    });
+  }
+
+  return lines.join('\n');
+}
+
+/**
+ * 단독으로 열 수 있는 HTML 문서 (스타일, 이미지 포함)
+ */
+export function toHTML(source: ExportSource): string {
+  const { analysis } = source;
+  const meta = getMetaItems(analysis);
+
+  const toc = analysis.tableOfContents.map((item, i) => `
+    <li>
+      <h3>${i + 1}. ${escapeHtml(item.title)}${item.timestampSeconds !== undefined
+        ? ` <a class="time" href="${escapeHtml(buildTimestampUrl(source, item.timestampSeconds))}" target="_blank">▶ ${formatSeconds(item.timestampSeconds)}</a>`
+        : ''}</h3>
+      ${item.description ? `<p class="desc">${escapeHtml(item.description)}</p>` : ''}
+      ${item.summary && item.summary !== item.description ? `<p>${escapeHtml(item.summary)}</p>` : ''}
+      ${item.keyPoints.length > 0 ? `<ul>${item.keyPoints.map(p => `<li>${escapeHtml(p)}</li>`).join('')}</ul>` : ''}
+    </li>`).join('');
+
+  const keywords = analysis.keywords.map(keyword => {
+    const { name, description } = splitKeyword(keyword);
+    return `<li><strong>${escapeHtml(name)}</strong>${description ? ` — ${escapeHtml(description)}` : ''}</li>`;
+  }).join('');
+
+  const insights = analysis.keyInsights.map(insight => `<li>${escapeHtml(insight)}</li>`).join('');
+
+  const frames = (analysis.keyFrames || []).map(kf => `
+    <figure>
+      ${kf.imageBase64 ? `<img src="data:image/jpeg;base64,${kf.imageBase64}" alt="${escapeHtml(kf.description)}">` : ''}
+      <figcaption><a class="time" href="${escapeHtml(buildTimestampUrl(source, kf.timestampSeconds))}" target="_blank">${escapeHtml(kf.timestamp)}</a> ${escapeHtml(kf.description)}</figcaption>
+    </figure>`).join('');
+
+  return `<!DOCTYPE html>
+<html lang="ko">
+<head>
+<meta charset="UTF-8">
+<meta name="viewport" content="width=device-width, initial-scale=1.0">
+<title>${escapeHtml(source.title)}</title>
+<style>
+  body { max-width: 820px; margin: 40px auto; padding: 0 20px; font-family: -apple-system, "Malgun Gothic", "Apple SD Gothic Neo", "Noto Sans KR", sans-serif; line-height: 1.7; color: #1f2937; }
+  h1 { font-size: 1.8rem; margin-bottom: 4px; }
+  h2 { margin-top: 40px; padding-bottom: 6px; border-bottom: 2px solid #6366f1; }
+  h3 { font-size: 1.05rem; margin: 0 0 6px; }
+  .meta { color: #6b7280; font-size: 0.9rem; }
+  .meta a { color: #6b7280; word-break: break-all; }
+  .toc { list-style: none; padding: 0; }
+  .toc > li { padding: 14px 16px; margin-bottom: 12px; background: #f9fafb; border-radius: 10px; }
+  .desc { color: #6b7280; margin: 0 0 6px; }
+  a.time { font-family: monospace; font-size: 0.85rem; color: #6366f1; text-decoration: none; }
+  .frames { display: grid; grid-template-columns: repeat(auto-fill, minmax(240px, 1fr)); gap: 16px; }
+  figure { margin: 0; }
+  figure img { width: 100%; border-radius: 8px; }
+  figcaption { font-size: 0.85rem; color: #4b5563; }
+  @media print { body { margin: 0; } .toc > li, figure { break-inside: avoid; } }
+</style>
+</head>
+<body>
+<h1>${escapeHtml(source.title)}</h1>
+<p class="meta"><a href="${escapeHtml(source.url)}" target="_blank">${escapeHtml(source.url)}</a>${meta.length > 0 ? `<br>${escapeHtml(meta.join(' · '))}` : ''}</p>
+
+<h2>요약</h2>
+<p>${escapeHtml(analysis.summary).replace(/\n/g, '<br>')}</p>
+
+<h2>목차</h2>
+<ol class="toc">${toc}</ol>
+${keywords ? `\n<h2>키워드</h2>\n<ul>${keywords}</ul>` : ''}
+${insights ? `\n<h2>핵심 인사이트</h2>\n<ol>${insights}</ol>` : ''}
+${frames ? `\n<h2>주요 장면</h2>\n<div class="frames">${frames}</div>` : ''}
+</body>
+</html>
+`;
+}
+
+/**
+ * 버전이 있는 JSON 문서
+ */
+export function toJSON(source: ExportSource): string {
+  return JSON.stringify({
+    format: 'video-summarizer-analysis',
+    version: EXPORT_JSON_VERSION,
+    exportedAt: new Date().toISOString(),
+    source: {
+      title: source.title,
+      url: source.url,
+      platform: source.platform,
+      videoId: source.videoId
+    },
+    analysis: source.analysis
+  }, null, 2);
+}
+
+// PDF 페이지 캔버스 크기 (A4, 약 150dpi)
+const PAGE_WIDTH_PX = 1240;
+const PAGE_HEIGHT_PX = Math.round(PAGE_WIDTH_PX * (A4_HEIGHT_PT / A4_WIDTH_PT));
+const PAGE_MARGIN_PX = 100;
+const FONT_FAMILY = '"Malgun Gothic", "Apple SD Gothic Neo", "Noto Sans KR", sans-serif';
+
+interface TextStyle {
+  size: number;
+  bold?: boolean;
+  color?: string;
+  indent?: number;
+  lineHeight?: number;
+}
+
+/**
+ * 캔버스에 문서를 그리며 페이지를 나누는 렌더러 (PDF 내보내기용)
+ */
+class CanvasPageRenderer {
+  private canvas: HTMLCanvasElement;
+  private ctx: CanvasRenderingContext2D;
+  private y = PAGE_MARGIN_PX;
+  private links: PdfLink[] = [];
+  private pages: PdfPage[] = [];
+
+  constructor() {
+    this.canvas = document.createElement('canvas');
+    this.canvas.width = PAGE_WIDTH_PX;
+    this.canvas.height = PAGE_HEIGHT_PX;
+    const ctx = this.canvas.getContext('2d');
+    if (!ctx) {
+      throw new Error('Canvas context를 가져올 수 없습니다');
+    }
+    this.ctx = ctx;
+    this.clearPage();
+  }
+
+  private get contentWidth(): number {
+    return PAGE_WIDTH_PX - PAGE_MARGIN_PX * 2;
+  }
+
+  private clearPage() {
+    this.ctx.fillStyle = '#ffffff';
+    this.ctx.fillRect(0, 0, PAGE_WIDTH_PX, PAGE_HEIGHT_PX);
+    this.y = PAGE_MARGIN_PX;
+    this.links = [];
+  }
+
+  /**
+   * 현재 페이지를 JPEG로 저장하고 새 페이지 시작
+   */
+  private flushPage() {
+    const dataUrl = this.canvas.toDataURL('image/jpeg', 0.85);
+    const binary = atob(dataUrl.split(',')[1]);
+    const jpeg = new Uint8Array(binary.length);
+    for (let i = 0; i < binary.length; i++) {
+      jpeg[i] = binary.charCodeAt(i);
+    }
+    this.pages.push({ jpeg, width: PAGE_WIDTH_PX, height: PAGE_HEIGHT_PX, links: this.links });
+    this.clearPage();
+  }
+
+  /**
+   * 남은 공간이 부족하면 다음 페이지로
+   */
+  private ensureSpace(height: number) {
+    if (this.y + height > PAGE_HEIGHT_PX - PAGE_MARGIN_PX && this.y > PAGE_MARGIN_PX) {
+      this.flushPage();
+    }
+  }
+
+  private setFont(style: TextStyle) {
+    this.ctx.font = `${style.bold ? 'bold ' : ''}${style.size}px ${FONT_FAMILY}`;
+    this.ctx.fillStyle = style.color || '#1f2937';
+    this.ctx.textBaseline = 'top';
+  }
+
+  /**
+   * 너비에 맞춰 줄바꿈 (공백 단위, 긴 단어/한글은 글자 단위)
+   */
+  private wrapText(text: string, maxWidth: number): string[] {
+    const lines: string[] = [];
+
+    for (const paragraph of text.split('\n')) {
+      let line = '';
+      for (const token of paragraph.split(/(\s+)/)) {
+        if (this.ctx.measureText(line + token).width <= maxWidth) {
+          line += token;
+          continue;
+        }
+        if (line.trim()) lines.push(line.trimEnd());
+        line = '';
+        for (const char of token.trimStart()) {
+          if (this.ctx.measureText(line + char).width > maxWidth && line) {
+            lines.push(line);
+            line = '';
+          }
+          line += char;
+        }
+      }
+      lines.push(line.trimEnd());
+    }
+
+    return lines;
+  }
+
+  /**
+   * 텍스트 블록 (link가 있으면 첫 줄에 링크 영역 추가)
+   */
+  text(text: string, style: TextStyle, link?: string, spacingAfter = 12) {
+    this.setFont(style);
+    const indent = style.indent || 0;
+    const lineHeight = Math.round(style.size * (style.lineHeight || 1.5));
+
+    this.wrapText(text, this.contentWidth - indent).forEach((line, i) => {
+      this.ensureSpace(lineHeight);
+      this.setFont(style);
+      this.ctx.fillText(line, PAGE_MARGIN_PX + indent, this.y);
+      if (link && i === 0) {
+        this.links.push({
+          x: PAGE_MARGIN_PX + indent,
+          y: this.y,
+          width: this.ctx.measureText(line).width,
+          height: lineHeight,
+          url: link
+        });
+      }
+      this.y += lineHeight;
+    });
+    this.y += spacingAfter;
+  }
+
+  heading(text: string) {
+    this.ensureSpace(90);
+    this.y += 20;
+    this.text(text, { size: 34, bold: true, color: '#111827' }, undefined, 4);
+    this.ctx.fillStyle = '#6366f1';
+    this.ctx.fillRect(PAGE_MARGIN_PX, this.y, this.contentWidth, 3);
+    this.y += 20;
+  }
+
+  /**
+   * 이미지 (내용 너비의 절반 크기)
+   */
+  image(image: HTMLImageElement, caption: string, link: string) {
+    const width = this.contentWidth / 2;
+    const height = image.naturalWidth ? width * (image.naturalHeight / image.naturalWidth) : width * 9 / 16;
+    this.ensureSpace(height + 60);
+    this.ctx.drawImage(image, PAGE_MARGIN_PX, this.y, width, height);
+    this.links.push({ x: PAGE_MARGIN_PX, y: this.y, width, height, url: link });
+    this.y += height + 8;
+    this.text(caption, { size: 22, color: '#4b5563' }, link, 24);
+  }
+
+  finish(): PdfPage[] {
+    if (this.y > PAGE_MARGIN_PX || this.pages.length === 0) {
+      this.flushPage();
+    }
+    return this.pages;
+  }
+}
+
+/**
+ * base64 JPEG를 이미지로 불러오기
+ */
+function loadImage(base64: string): Promise<HTMLImageElement | null> {
+  return new Promise(resolve => {
+    const image = new Image();
+    image.onload = () => resolve(image);
+    image.onerror = () => resolve(null);
+    image.src = `data:image/jpeg;base64,${base64}`;
+  });
+}
+
+/**
+ * 인쇄용 PDF (텍스트를 캔버스에 그린 페이지 이미지 + 목차 링크)
+ */
+export async function toPDF(source: ExportSource): Promise<Blob> {
+  const { analysis } = source;
+  const renderer = new CanvasPageRenderer();
+
+  renderer.text(source.title, { size: 44, bold: true, color: '#111827', lineHeight: 1.3 }, undefined, 8);
+  renderer.text(source.url, { size: 20, color: '#6366f1' }, source.url, 4);
+  const meta = getMetaItems(analysis);
+  if (meta.length > 0) {
+    renderer.text(meta.join(' · '), { size: 22, color: '#6b7280' });
+  }
+
+  renderer.heading('요약');
+  renderer.text(analysis.summary, { size: 24, lineHeight: 1.7 });
+
+  renderer.heading('목차');
+  analysis.tableOfContents.forEach((item, i) => {
+    const hasTime = item.timestampSeconds !== undefined;
+    const link = hasTime ? buildTimestampUrl(source, item.timestampSeconds!) : undefined;
+    const time = hasTime ? `  ▶ ${formatSeconds(item.timestampSeconds!)}` : '';
+    renderer.text(`${i + 1}. ${item.title}${time}`, { size: 27, bold: true, color: '#111827' }, link, 6);
+    if (item.description) {
+      renderer.text(item.description, { size: 22, color: '#6b7280', indent: 30 }, undefined, 6);
+    }
+    if (item.summary && item.summary !== item.description) {
+      renderer.text(item.summary, { size: 23, indent: 30, lineHeight: 1.6 }, undefined, 6);
+    }
+    item.keyPoints.forEach(point => {
+      renderer.text(`• ${point}`, { size: 22, indent: 50 }, undefined, 2);
+    });
+    renderer.text('', { size: 12 }, undefined, 8);
+  });
+
+  if (analysis.keywords.length > 0) {
+    renderer.heading('키워드');
+    analysis.keywords.forEach(keyword => {
+      const { name, description } = splitKeyword(keyword);
+      renderer.text(description ? `• ${name} — ${description}` : `• ${name}`, { size: 23 }, undefined, 4);
+    });
+  }
+
+  if (analysis.keyInsights.length > 0) {
+    renderer.heading('핵심 인사이트');
+    analysis.keyInsights.forEach((insight, i) => {
+      renderer.text(`${i + 1}. ${insight}`, { size: 23, lineHeight: 1.6 }, undefined, 6);
+    });
+  }
+
+  if (analysis.keyFrames && analysis.keyFrames.length > 0) {
+    renderer.heading('주요 장면');
+    for (const kf of analysis.keyFrames) {
+      const link = buildTimestampUrl(source, kf.timestampSeconds);
+      const image = kf.imageBase64 ? await loadImage(kf.imageBase64) : null;
+      if (image) {
+        renderer.image(image, `${kf.timestamp}  ${kf.description}`, link);
+      } else {
+        renderer.text(`▶ ${kf.timestamp}  ${kf.description}`, { size: 22 }, link, 8);
+      }
+    }
+  }
+
+  return buildPdf(renderer.finish());
+}
+
+/**
+ * 형식별 파일 생성
+ */
+async function createExportFile(source: ExportSource, format: ExportFormat): Promise<{ blob: Blob; filename: string }> {
+  switch (format) {
+    case 'markdown':
+      return { blob: new Blob([toMarkdown(source)], { type: 'text/markdown;charset=utf-8' }), filename: toFileName(source.title, 'md') };
+    case 'html':
+      return { blob: new Blob([toHTML(source)], { type: 'text/html;charset=utf-8' }), filename: toFileName(source.title, 'html') };
+    case 'json':
+      return { blob: new Blob([toJSON(source)], { type: 'application/json' }), filename: toFileName(source.title, 'json') };
+    case 'pdf':
+      return { blob: await toPDF(source), filename: toFileName(source.title, 'pdf') };
+  }
+}
+
+/**
+ * 분석 결과를 파일로 내보내기 (chrome.downloads로 저장 위치 선택)
+ */
+export async function exportAnalysis(source: ExportSource, format: ExportFormat): Promise<void> {
+  const { blob, filename } = await createExportFile(source, format);
+  const url = URL.createObjectURL(blob);
+
+  try {
+    await chrome.downloads.download({ url, filename, saveAs: true });
+  } finally {
+    // 다운로드가 시작될 시간을 두고 해제
+    setTimeout(() => URL.revokeObjectURL(url), 60000);
+  }
+}
@@ -0,0 +1,107 @@
+/**
+ * 캡처한 사진 중복 제거 (perceptual hash)
+ * 같은 슬라이드를 여러 번 캡처한 사진은 화면이 거의 같아 비용만 늘리고 섹션 구분을 흐리게 함
+ * dHash(인접 픽셀 밝기 비교)로 비슷한 사진을 찾아 하나로 묶음
+ * Side Panel, Background(Service Worker) 모두 사용하므로 DOM 대신 createImageBitmap + OffscreenCanvas 사용
+ */
+
+// dHash 크기 (가로 9 x 세로 8 → 64비트)
+const HASH_WIDTH = 9;
+const HASH_HEIGHT = 8;
+
+// 다른 비트가 이 개수 이하면 같은 화면으로 봄 (64비트 중)
+const DUPLICATE_DISTANCE = 6;
+
+// 중복 제거 대상 사진 (시간순)
+export interface HashableFrame {
+  timestamp: number;
+  imageBase64: string;
+  endTimestamp?: number;
+  changeScore?: number;
+}
+
+/**
+ * base64 JPEG 사진의 dHash (16자리 16진수)
+ */
+export async function computeDHash(imageBase64: string): Promise<string> {
+  const bytes = Uint8Array.from(atob(imageBase64), char => char.charCodeAt(0));
+  const bitmap = await createImageBitmap(new Blob([bytes], { type: 'image/jpeg' }));
+
+  const canvas = new OffscreenCanvas(HASH_WIDTH, HASH_HEIGHT);
+  const ctx = canvas.getContext('2d');
+  if (!ctx) {
+    bitmap.close();
+    throw new Error('Canvas context를 가져올 수 없습니다');
+  }
+  ctx.drawImage(bitmap, 0, 0, HASH_WIDTH, HASH_HEIGHT);
+  bitmap.close();
+
+  const { data } = ctx.getImageData(0, 0, HASH_WIDTH, HASH_HEIGHT);
+  const luma = (x: number, y: number) => {
+    const i = (y * HASH_WIDTH + x) * 4;
+    return 0.299 * data[i] + 0.587 * data[i + 1] + 0.114 * data[i + 2];
+  };
+
+  let hash = '';
+  for (let y = 0; y < HASH_HEIGHT; y++) {
+    let nibble = 0;
+    for (let x = 0; x < HASH_WIDTH - 1; x++) {
+      nibble = (nibble << 1) | (luma(x, y) > luma(x + 1, y) ? 1 : 0);
+      if (x % 4 === 3) {
+        hash += nibble.toString(16);
+        nibble = 0;
+      }
+    }
+  }
+  return hash;
+}
+
+/**
+ * 두 해시의 다른 비트 수
+ */
+export function hammingDistance(a: string, b: string): number {
+  let distance = 0;
+  for (let i = 0; i < Math.min(a.length, b.length); i++) {
+    let diff = parseInt(a[i], 16) ^ parseInt(b[i], 16);
+    while (diff) {
+      distance += diff & 1;
+      diff >>= 1;
+    }
+  }
+  return distance;
+}
+
+/**
+ * 연속으로 비슷한 사진을 하나로 묶음
+ * - 묶인 사진은 첫 사진의 시간부터 마지막 사진의 시간까지(endTimestamp)를 나타냄 (변화 점수는 첫 사진 기준)
+ * - 이미지는 마지막 사진 사용 (내용이 점점 추가되는 슬라이드는 마지막 화면이 가장 완성된 화면)
+ * - 해시를 계산할 수 없는 사진은 그대로 둠
+ */
+export async function dedupeFrames<T extends HashableFrame>(frames: T[]): Promise<T[]> {
+  const hashes = await Promise.all(frames.map(frame => computeDHash(frame.imageBase64).catch(() => null)));
+
+  const result: T[] = [];
+  let previousHash: string | null = null;
+
+  frames.forEach((frame, i) => {
+    const hash = hashes[i];
+    const last = result[result.length - 1];
+
+    if (last && hash && previousHash && hammingDistance(previousHash, hash) <= DUPLICATE_DISTANCE) {
+      result[result.length - 1] = {
+        ...frame,
+        timestamp: last.timestamp,
+        endTimestamp: frame.endTimestamp ?? frame.timestamp,
+        changeScore: last.changeScore
+      };
+    } else {
+      result.push(frame);
+    }
+    previousHash = hash;
+  });
+
+  if (result.length < frames.length) {
+    console.log(`[Video Summarizer] 비슷한 사진 ${frames.length - result.length}장 제외 (${frames.length} → ${result.length})`);
+  }
+  return result;
+}
@@ -0,0 +1,135 @@
+/**
+ * 분석 기록 라이브러리
+ * 분석 결과, 자막, 주요 장면, 채팅 기록을 IndexedDB에 저장해 같은 비디오를 다시 분석하지 않도록 함
+ * (키: 플랫폼 + videoId, videoId가 없으면 URL)
+ */
+
+import type { AnalysisMode } from '../types';
+import type { ChatMessage, VideoAnalysis } from './openai';
+
+const DB_NAME = 'video-summarizer';
+const DB_VERSION = 1;
+const STORE_NAME = 'analyses';
+
+export interface LibraryEntry {
+  key: string;
+  platform: string;
+  videoId?: string;
+  url: string;
+  title: string;
+  duration?: number;
+  mode: AnalysisMode;
+  analysis: VideoAnalysis;     // 주요 장면(keyFrames) 이미지 포함
+  transcript?: string;         // 분석에 사용한 자막
+  chatMessages: ChatMessage[];
+  createdAt: number;
+  updatedAt: number;
+}
+
+let dbPromise: Promise<IDBDatabase> | null = null;
+
+/**
+ * 데이터베이스 열기 (최초 1회 스키마 생성)
+ */
+function openDatabase(): Promise<IDBDatabase> {
+  if (!dbPromise) {
+    dbPromise = new Promise((resolve, reject) => {
+      const request = indexedDB.open(DB_NAME, DB_VERSION);
+
+      request.onupgradeneeded = () => {
+        const db = request.result;
+        if (!db.objectStoreNames.contains(STORE_NAME)) {
+          const store = db.createObjectStore(STORE_NAME, { keyPath: 'key' });
+          store.createIndex('updatedAt', 'updatedAt');
+        }
+      };
+
+      request.onsuccess = () => resolve(request.result);
+      request.onerror = () => {
+        dbPromise = null;
+        reject(request.error || new Error('기록 저장소를 열 수 없습니다'));
+      };
+    });
+  }
+  return dbPromise;
+}
+
+/**
+ * IDBRequest를 Promise로 변환
+ */
+function promisifyRequest<T>(request: IDBRequest<T>): Promise<T> {
+  return new Promise((resolve, reject) => {
+    request.onsuccess = () => resolve(request.result);
+    request.onerror = () => reject(request.error);
+  });
+}
+
+/**
+ * 저장소 작업 실행
+ */
+async function withStore<T>(
+  mode: IDBTransactionMode,
+  run: (store: IDBObjectStore) => IDBRequest<T>
+): Promise<T> {
+  const db = await openDatabase();
+  const transaction = db.transaction(STORE_NAME, mode);
+  return promisifyRequest(run(transaction.objectStore(STORE_NAME)));
+}
+
+/**
+ * 비디오의 기록 키 (플랫폼 + videoId 또는 URL)
+ */
+export function getLibraryKey(video: { platform: string; videoId?: string; url: string }): string {
+  return `${video.platform}:${video.videoId || video.url}`;
+}
+
+/**
+ * 분석 결과 저장 (같은 키가 있으면 덮어쓰되 최초 저장 시각은 유지)
+ */
+export async function saveAnalysis(
+  entry: Omit<LibraryEntry, 'key' | 'createdAt' | 'updatedAt'>
+): Promise<LibraryEntry> {
+  const key = getLibraryKey(entry);
+  const existing = await getAnalysis(key);
+  const now = Date.now();
+
+  const saved: LibraryEntry = {
+    ...entry,
+    key,
+    createdAt: existing?.createdAt ?? now,
+    updatedAt: now
+  };
+  await withStore('readwrite', store => store.put(saved));
+  return saved;
+}
+
+/**
+ * 저장된 분석 결과 조회
+ */
+export async function getAnalysis(key: string): Promise<LibraryEntry | undefined> {
+  return withStore<LibraryEntry | undefined>('readonly', store => store.get(key));
+}
+
+/**
+ * 전체 기록 (최근 순)
+ */
+export async function listAnalyses(): Promise<LibraryEntry[]> {
+  const entries = await withStore<LibraryEntry[]>('readonly', store => store.getAll());
+  return entries.sort((a, b) => b.updatedAt - a.updatedAt);
+}
+
+/**
+ * 채팅 기록 갱신
+ */
+export async function updateChatHistory(key: string, chatMessages: ChatMessage[]): Promise<void> {
+  const entry = await getAnalysis(key);
+  if (!entry) return;
+  await withStore('readwrite', store => store.put({ ...entry, chatMessages, updatedAt: Date.now() }));
+}
+
+/**
+ * 기록 삭제
+ */
+export async function deleteAnalysis(key: string): Promise<void> {
+  await withStore('readwrite', store => store.delete(key));
+}
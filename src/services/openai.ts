@@ -1,48 +1,106 @@
 /**
  * AI API 서비스 모듈
- * OpenAI + Gemini 지원
+ * OpenAI / Gemini / Anthropic / 로컬 모델 지원 (providers 참고)
  * 비디오 분석 알고리즘 구현
  */
 
-// API 설정
-const OPENAI_API_URL = 'https://api.openai.com/v1/chat/completions';
-// Gemini는 백엔드에서 직접 호출하므로 프론트엔드에서는 미사용
-
-// 빌드 시 .env의 API 키들이 주입됨
+import type { CaptionSelection, FrameCaptureOptions, Message, VideoPlatform } from '../types';
+import { loadSettings, PROVIDER_LABELS } from './settings';
+import { createProvider, OpenAIProvider, MAX_VISION_IMAGES, type LLMProvider, type ChatMessage } from './providers';
+import {
+  splitTranscriptIntoChunks,
+  formatChunkRange,
+  formatSeconds,
+  parseTimestamp,
+  parseTranscriptLines,
+  type TranscriptChunk
+} from './chunking';
+import { parseSubtitles, segmentsToTranscript } from './subtitles';
+import { sendToPage, type PageTarget } from './pageMessaging';
+import { dedupeFrames } from './frameHash';
+
+export type { ChatMessage, LLMProvider } from './providers';
+
+// 개발 빌드에서만 .env의 API 키들이 주입됨 (프로덕션 빌드에서는 빈 문자열)
 declare const __OPENAI_API_KEY__: string;
 declare const __GEMINI_API_KEY__: string;
 declare const __BACKEND_API_URL__: string;
 
-// API 키 가져오기
-export const getApiKey = (): string => {
-  return __OPENAI_API_KEY__ || '';
+const DEV_OPENAI_API_KEY = import.meta.env.DEV ? __OPENAI_API_KEY__ : '';
+const DEV_GEMINI_API_KEY = import.meta.env.DEV ? __GEMINI_API_KEY__ : '';
+
+// API 키 가져오기 (설정 페이지 값 우선, 개발 모드에서만 .env 값으로 폴백)
+export const getApiKey = async (): Promise<string> => {
+  const settings = await loadSettings();
+  return settings.openaiApiKey || DEV_OPENAI_API_KEY || '';
 };
 
-export const getGeminiApiKey = (): string => {
-  return __GEMINI_API_KEY__ || '';
+export const getGeminiApiKey = async (): Promise<string> => {
+  const settings = await loadSettings();
+  return settings.geminiApiKey || DEV_GEMINI_API_KEY || '';
 };
 
 // Gemini API 키가 있는지 확인
-export const hasGeminiKey = (): boolean => {
-  return !!__GEMINI_API_KEY__;
+export const hasGeminiKey = async (): Promise<boolean> => {
+  return !!(await getGeminiApiKey());
+};
+
+/**
+ * 설정에서 선택한 LLM 제공자 가져오기
+ * API 키가 없으면 에러 (로컬 모델은 키 없이 사용 가능)
+ */
+export const getProvider = async (): Promise<LLMProvider> => {
+  const settings = await loadSettings();
+  const apiKeys: Record<typeof settings.provider, string> = {
+    openai: await getApiKey(),
+    gemini: await getGeminiApiKey(),
+    anthropic: settings.anthropicApiKey,
+    local: ''
+  };
+  const apiKey = apiKeys[settings.provider] || '';
+
+  if (!apiKey && settings.provider !== 'local') {
+    throw new Error(`${PROVIDER_LABELS[settings.provider]} API 키가 설정되지 않았습니다. 설정 페이지에서 API 키를 입력해주세요.`);
+  }
+
+  return createProvider(settings, apiKey);
 };
 
 // 백엔드 API URL 가져오기 (끝의 슬래시 제거)
-export const getBackendApiUrl = (): string => {
-  const url = __BACKEND_API_URL__ || 'http://localhost:5000';
+export const getBackendApiUrl = async (): Promise<string> => {
+  const settings = await loadSettings();
+  const url = settings.backendApiUrl || __BACKEND_API_URL__ || 'http://localhost:5000';
   return url.replace(/\/+$/, ''); // 끝에 있는 슬래시 제거
 };
 
 // 타입 정의
+// 자막 세그먼트 (시작 시각 + 텍스트)
+export interface TranscriptSegment {
+  start: number;  // 초 단위
+  text: string;
+}
+
 export interface VideoTranscript {
   videoId: string;
   title: string;
   platform: string;
   duration?: number;
+  description?: string; // 페이지에 게시된 설명 (제목만으로 분석할 때 특히 유용)
   transcript: string;
+  segments?: TranscriptSegment[]; // 목차 시작 시각 검증용 (없으면 transcript의 [m:ss]에서 추출)
   language?: string;
 }
 
+// 긴 자막의 구간별 요약 (map 단계 결과)
+export interface ChunkSummary {
+  index: number;
+  startSeconds?: number;
+  endSeconds?: number;
+  summary: string;
+  topics: string[];
+  keyPoints: string[];
+}
+
 export interface VideoSummaryJSON {
   videoId: string;
   title: string;
@@ -50,8 +108,10 @@ export interface VideoSummaryJSON {
   mainTopics: string[];
   keyPoints: Array<{
     content: string;
+    startTime?: string; // 해당 내용이 시작되는 자막 타임스탬프 ("m:ss")
   }>;
   rawTranscript: string;
+  chunkSummaries?: ChunkSummary[]; // 긴 자막일 때 시간순 구간 요약
 }
 
 export interface TableOfContentsItem {
@@ -64,8 +124,9 @@ export interface TableOfContentsItem {
 
 // 주요 프레임 (다이어그램, 슬라이드 등)
 export interface KeyFrame {
-  timestamp: string;          // "00:30" 형식
+  timestamp: string;          // "0:30" 형식 (비슷한 장면을 묶었으면 "0:30~1:10")
   timestampSeconds: number;   // 초 단위
+  endTimestampSeconds?: number; // 묶인 장면의 끝 (초 단위)
   description: string;        // 프레임 설명
   type: 'diagram' | 'chart' | 'slide' | 'code' | 'screenshot' | 'scene';
   relatedSection?: string;    // 관련 섹션 제목
@@ -74,6 +135,8 @@ export interface KeyFrame {
   height?: number;
 }
 
+const KEY_FRAME_TYPES: KeyFrame['type'][] = ['diagram', 'chart', 'slide', 'code', 'screenshot', 'scene'];
+
 export interface VideoAnalysis {
   videoId: string;
   title: string;
@@ -87,11 +150,6 @@ export interface VideoAnalysis {
   keyFrames?: KeyFrame[];     // 주요 프레임들 (다이어그램, 슬라이드 등)
 }
 
-export interface ChatMessage {
-  role: 'user' | 'assistant' | 'system';
-  content: string;
-}
-
 export interface ChatResponse {
   answer: string;
   relatedTopics?: string[];
@@ -103,6 +161,8 @@ export interface VideoFrame {
   imageBase64: string;    // base64 인코딩된 이미지
   width: number;
   height: number;
+  changeScore?: number;   // 장면 전환 샘플링일 때 직전 장면과의 변화 정도 (0~1)
+  endTimestamp?: number;  // 비슷한 사진을 묶었을 때 마지막 사진의 시간 (초)
 }
 
 // 멀티모달 분석 입력
@@ -112,131 +172,248 @@ export interface MultimodalAnalysisInput {
   duration: number;
   frames: VideoFrame[];   // 캡처된 프레임들
   transcript?: string;    // 음성 인식 결과 (있으면)
+  description?: string;   // 페이지 구조화 데이터의 설명
 }
 
 /**
- * GPT-4o Vision API 호출 (이미지 분석용)
+ * 응답 텍스트에서 JSON 객체 추출
+ * (JSON 모드가 없는 제공자는 앞뒤에 설명이나 코드 블록이 붙을 수 있음)
  */
-async function callOpenAIVision(
-  apiKey: string,
-  systemPrompt: string,
-  userPrompt: string,
-  images: Array<{ base64: string; timestamp: number }>,
-  options: {
-    model?: string;
-    temperature?: number;
-    maxTokens?: number;
-  } = {}
-): Promise<string> {
-  const { 
-    model = 'gpt-4o', // Vision은 gpt-4o 사용
-    temperature = 0.2,
-    maxTokens = 4000
-  } = options;
-
-  // 이미지를 포함한 content 구성
-  const userContent: Array<{ type: string; text?: string; image_url?: { url: string; detail?: string } }> = [
-    { type: 'text', text: userPrompt }
-  ];
+function parseJSONResponse<T>(response: string): T {
+  const jsonMatch = response.match(/\{[\s\S]*\}/);
+  if (!jsonMatch) {
+    throw new Error('JSON 형식 응답을 찾을 수 없습니다');
+  }
+  return JSON.parse(jsonMatch[0]);
+}
 
-  // 이미지 추가 (최대 10장)
-  const selectedImages = images.slice(0, 10);
-  selectedImages.forEach(img => {
-    userContent.push({
-      type: 'image_url',
-      image_url: {
-        url: `data:image/jpeg;base64,${img.base64}`,
-        detail: 'low' // 비용 절감을 위해 low detail 사용
-      }
-    });
-  });
+/**
+ * 자막 세그먼트 목록 (segments가 없으면 "[m:ss] 텍스트" 줄에서 추출)
+ */
+function getTranscriptSegments(transcript: VideoTranscript): TranscriptSegment[] {
+  if (transcript.segments && transcript.segments.length > 0) {
+    return transcript.segments;
+  }
+  return parseTranscriptLines(transcript.transcript)
+    .filter((line): line is TranscriptSegment => line.start !== undefined);
+}
 
-  const requestBody = {
-    model,
-    messages: [
-      { role: 'system', content: systemPrompt },
-      { role: 'user', content: userContent }
-    ],
-    temperature,
-    max_tokens: maxTokens,
-    response_format: { type: 'json_object' }
-  };
+/**
+ * 시각을 가장 가까운 실제 세그먼트 시작으로 맞춤 (범위를 벗어나면 undefined)
+ */
+function snapToSegmentStart(
+  seconds: number | undefined,
+  segments: TranscriptSegment[],
+  duration?: number
+): number | undefined {
+  if (seconds === undefined || isNaN(seconds) || seconds < 0) return undefined;
+  if (duration && seconds > duration) return undefined;
+  if (segments.length === 0) return undefined;
+
+  let nearest = segments[0].start;
+  for (const segment of segments) {
+    if (Math.abs(segment.start - seconds) < Math.abs(nearest - seconds)) {
+      nearest = segment.start;
+    }
+  }
+  return nearest;
+}
 
-  const response = await fetch(OPENAI_API_URL, {
-    method: 'POST',
-    headers: {
-      'Content-Type': 'application/json',
-      'Authorization': `Bearer ${apiKey}`
-    },
-    body: JSON.stringify(requestBody)
+/**
+ * AI가 제시한 섹션 시작 시각 검증
+ * 세그먼트 시작으로 맞춘 뒤 앞 섹션보다 이르거나 같은 시각은 신뢰할 수 없으므로 제외
+ */
+function verifySectionTimestamps(
+  startTimes: Array<string | number | undefined>,
+  segments: TranscriptSegment[],
+  duration?: number
+): Array<number | undefined> {
+  let previous = -1;
+  return startTimes.map(value => {
+    const seconds = typeof value === 'number' ? value : value ? parseTimestamp(value) : undefined;
+    const snapped = snapToSegmentStart(seconds, segments, duration);
+    if (snapped === undefined || snapped <= previous) return undefined;
+    previous = snapped;
+    return snapped;
   });
+}
 
-  if (!response.ok) {
-    const error = await response.json();
-    throw new Error(error.error?.message || 'OpenAI Vision API 호출 실패');
-  }
+// 한 번에 처리할 자막 최대 길이 (넘으면 구간별로 요약한 뒤 병합)
+const SINGLE_PASS_MAX_CHARS = 10000;
+// 2단계에 전달할 구간 요약 전체 최대 길이 (넘으면 인접 구간끼리 다시 병합)
+const MERGED_SUMMARY_MAX_CHARS = 16000;
 
-  const data = await response.json();
-  return data.choices[0]?.message?.content || '';
+/**
+ * 제공자의 입력 한도에 맞춘 구간 크기
+ * 한국어는 1자 ≈ 1토큰 이상이므로 컨텍스트의 절반 이내로 보수적으로 계산
+ */
+function getChunkMaxChars(provider: LLMProvider): number {
+  return Math.min(SINGLE_PASS_MAX_CHARS, Math.floor(provider.maxContextTokens / 2));
 }
 
 /**
- * OpenAI API 호출 헬퍼
- * - gpt-4o: 고품질 분석, 복잡한 추론 (비용 높음)
- * - gpt-4o-mini: 빠른 응답, 일반적인 분석 (비용 효율적)
+ * 구간 요약들을 프롬프트용 텍스트로 변환
  */
-async function callOpenAI(
-  apiKey: string,
-  messages: ChatMessage[],
-  options: {
-    model?: string;
-    temperature?: number;
-    maxTokens?: number;
-    responseFormat?: 'text' | 'json_object';
-  } = {}
-): Promise<string> {
-  const { 
-    model = 'gpt-4o-mini', 
-    temperature = 0.3, // 분석 작업에는 낮은 temperature가 더 일관된 결과
-    maxTokens = 2000,
-    responseFormat = 'text'
-  } = options;
-
-  const requestBody: Record<string, unknown> = {
-    model,
-    messages,
-    temperature,
-    max_tokens: maxTokens
-  };
+function formatChunkSummaries(summaries: ChunkSummary[]): string {
+  return summaries.map(c =>
+    `### [${formatChunkRange(c)}]
+${c.summary}
+- 주제: ${c.topics.join(', ')}
+- 핵심: ${c.keyPoints.join(' / ')}`
+  ).join('\n\n');
+}
+
+/**
+ * map 단계: 자막 구간 하나를 시간 범위와 함께 요약
+ */
+async function summarizeChunk(
+  provider: LLMProvider,
+  chunk: TranscriptChunk,
+  title: string,
+  totalChunks: number
+): Promise<ChunkSummary> {
+  const systemPrompt = `당신은 콘텐츠 분석 전문가입니다. 긴 콘텐츠의 자막 중 한 구간을 요약합니다.
+
+## 원칙
+- 해당 구간에서 실제로 다루는 내용만 구체적으로 요약
+- 중요한 수치, 사례, 방법론, 결론은 빠짐없이 포함
+- 필러 워드와 반복은 무시
+- "이 구간", "이 영상" 등 지시대명사 사용 금지
+- 반드시 유효한 JSON 형식으로만 응답`;
+
+  const userPrompt = `## 콘텐츠 제목
+${title}
+
+## 구간 정보
+- ${chunk.index + 1} / ${totalChunks} 구간
+- 시간 범위: ${formatChunkRange(chunk)}
+
+## 자막
+${chunk.text}
+
+## 응답 형식 (JSON)
+{
+  "summary": "구간 내용 상세 요약 (4-8문장)",
+  "topics": ["구간에서 다루는 주제들"],
+  "keyPoints": [${chunk.startSeconds !== undefined
+    ? '"[m:ss] 구체적인 핵심 내용 (앞에 해당 내용이 시작되는 자막 타임스탬프를 그대로 표시)"'
+    : '"구체적인 핵심 내용들"'}]
+}`;
 
-  // JSON 응답 형식 요청 (gpt-4o, gpt-4o-mini 지원)
-  if (responseFormat === 'json_object') {
-    requestBody.response_format = { type: 'json_object' };
+  const base = { index: chunk.index, startSeconds: chunk.startSeconds, endSeconds: chunk.endSeconds };
+
+  try {
+    const response = await provider.chat([
+      { role: 'system', content: systemPrompt },
+      { role: 'user', content: userPrompt }
+    ], { temperature: 0.2, maxTokens: 1500, responseFormat: 'json_object' });
+
+    const parsed = parseJSONResponse<Partial<ChunkSummary>>(response);
+    return {
+      ...base,
+      summary: parsed.summary || '',
+      topics: parsed.topics || [],
+      keyPoints: parsed.keyPoints || []
+    };
+  } catch (error) {
+    console.error(`구간 ${chunk.index + 1} 요약 실패:`, error);
+    // 실패한 구간도 시간 범위는 유지 (원문 앞부분 사용)
+    return { ...base, summary: chunk.text.substring(0, 500), topics: [], keyPoints: [] };
   }
+}
 
-  const response = await fetch(OPENAI_API_URL, {
-    method: 'POST',
-    headers: {
-      'Content-Type': 'application/json',
-      'Authorization': `Bearer ${apiKey}`
-    },
-    body: JSON.stringify(requestBody)
-  });
+/**
+ * reduce 단계: 인접한 구간 요약들을 하나로 병합
+ */
+async function mergeChunkGroup(
+  provider: LLMProvider,
+  group: ChunkSummary[],
+  title: string,
+  index: number
+): Promise<ChunkSummary> {
+  const merged = {
+    index,
+    startSeconds: group[0].startSeconds,
+    endSeconds: group[group.length - 1].endSeconds
+  };
+
+  const response = await provider.chat([
+    { role: 'system', content: '당신은 콘텐츠 분석 전문가입니다. 시간순으로 이어진 구간 요약들을 하나의 요약으로 병합합니다. 구체적인 내용은 유지하고 중복만 제거하세요. 반드시 유효한 JSON 형식으로만 응답하세요.' },
+    { role: 'user', content: `## 콘텐츠 제목
+${title}
+
+## 병합할 구간 요약
+${formatChunkSummaries(group)}
+
+## 응답 형식 (JSON)
+{
+  "summary": "병합된 상세 요약 (6-10문장)",
+  "topics": ["주제들"],
+  "keyPoints": ["핵심 내용들"]
+}` }
+  ], { temperature: 0.2, maxTokens: 2000, responseFormat: 'json_object' }).catch(() => '');
 
-  if (!response.ok) {
-    const error = await response.json();
-    throw new Error(error.error?.message || 'OpenAI API 호출 실패');
+  try {
+    const parsed = parseJSONResponse<Partial<ChunkSummary>>(response);
+    return {
+      ...merged,
+      summary: parsed.summary || '',
+      topics: parsed.topics || [],
+      keyPoints: parsed.keyPoints || []
+    };
+  } catch {
+    // 병합 실패 시 단순 연결
+    return {
+      ...merged,
+      summary: group.map(c => c.summary).join(' '),
+      topics: group.flatMap(c => c.topics),
+      keyPoints: group.flatMap(c => c.keyPoints)
+    };
+  }
+}
+
+/**
+ * 긴 자막 map-reduce 요약
+ * 1) 세그먼트 경계에서 구간으로 분할 → 2) 구간별 요약 → 3) 너무 길면 인접 구간끼리 병합
+ */
+export async function summarizeTranscriptInChunks(
+  provider: LLMProvider,
+  transcript: string,
+  title: string,
+  duration?: number,
+  onChunkProgress?: (done: number, total: number) => void
+): Promise<ChunkSummary[]> {
+  const chunks = splitTranscriptIntoChunks(transcript, getChunkMaxChars(provider), duration);
+  console.log('[Video Summarizer] 자막 구간 분할:', chunks.length, '개');
+
+  // map: 구간별 요약 (요청 한도를 고려해 순차 실행)
+  let summaries: ChunkSummary[] = [];
+  for (const chunk of chunks) {
+    onChunkProgress?.(summaries.length, chunks.length);
+    summaries.push(await summarizeChunk(provider, chunk, title, chunks.length));
+  }
+  onChunkProgress?.(chunks.length, chunks.length);
+
+  // reduce: 2단계 입력 한도를 넘으면 인접한 두 구간씩 병합
+  while (summaries.length > 1 && formatChunkSummaries(summaries).length > MERGED_SUMMARY_MAX_CHARS) {
+    const merged: ChunkSummary[] = [];
+    for (let i = 0; i < summaries.length; i += 2) {
+      const group = summaries.slice(i, i + 2);
+      merged.push(group.length === 1
+        ? { ...group[0], index: merged.length }
+        : await mergeChunkGroup(provider, group, title, merged.length));
+    }
+    summaries = merged;
   }
 
-  const data = await response.json();
-  return data.choices[0]?.message?.content || '';
+  return summaries;
 }
 
 /**
  * 음성 텍스트(자막) 정제 - 불필요한 내용 제거 및 정리
  */
 async function refineTranscript(
-  apiKey: string,
+  provider: LLMProvider,
   rawTranscript: string,
   title: string
 ): Promise<string> {
@@ -244,10 +421,16 @@ async function refineTranscript(
     return rawTranscript;
   }
 
+  // 타임스탬프가 있으면 세그먼트 기준점으로 유지 (목차 시작 시각 산출용)
+  const hasTimestamps = parseTranscriptLines(rawTranscript).some(line => line.start !== undefined);
+  const timestampRule = hasTimestamps
+    ? '1. **타임스탬프 유지**: 줄 맨 앞의 [m:ss] 표시는 그대로 유지하고, 여러 줄을 한 문단으로 합칠 때는 첫 줄의 타임스탬프를 문단 맨 앞에 남기세요'
+    : '1. **타임스탬프 제거**: [00:00], (1:23) 등 시간 표시 모두 제거';
+
   const systemPrompt = `당신은 텍스트 정제 전문가입니다. 음성 인식으로 변환된 자막 텍스트를 정리합니다.
 
 ## 정제 원칙
-1. **타임스탬프 제거**: [00:00], (1:23) 등 시간 표시 모두 제거
+${timestampRule}
 2. **중복 제거**: 반복되는 문장이나 단어 정리
 3. **무의미한 표현 제거**: "음...", "어...", "그러니까", "뭐랄까" 등 필러 워드
 4. **문장 정리**: 끊어진 문장을 자연스럽게 연결
@@ -267,16 +450,22 @@ async function refineTranscript(
 ${title}
 
 ## 원본 자막
-${rawTranscript.substring(0, 12000)}
+${rawTranscript}
 
 정제된 텍스트:`;
 
   try {
-    const refined = await callOpenAI(apiKey, [
+    const refined = await provider.chat([
       { role: 'system', content: systemPrompt },
       { role: 'user', content: userPrompt }
     ], { temperature: 0.1, maxTokens: 10000 });
 
+    // 기준 타임스탬프가 모두 사라졌으면 원본 사용
+    if (hasTimestamps && !parseTranscriptLines(refined).some(line => line.start !== undefined)) {
+      console.log('[Video Summarizer] 정제 결과에 타임스탬프가 없어 원본 자막 사용');
+      return rawTranscript;
+    }
+
     return refined.trim() || rawTranscript;
   } catch (error) {
     console.error('자막 정제 실패:', error);
@@ -288,20 +477,48 @@ ${rawTranscript.substring(0, 12000)}
  * 1단계: 비디오 제목을 바탕으로 전체 영상 내용 분석
  */
 export async function step1_transcriptToJSON(
-  apiKey: string,
-  transcript: VideoTranscript
+  provider: LLMProvider,
+  transcript: VideoTranscript,
+  onChunkProgress?: (done: number, total: number) => void
 ): Promise<VideoSummaryJSON> {
   const durationSeconds = transcript.duration || 600;
   const durationMinutes = Math.floor(durationSeconds / 60);
-  const durationText = `${durationMinutes}분 ${durationSeconds % 60}초`;
+  const durationText = `${durationMinutes}분 ${Math.floor(durationSeconds % 60)}초`;
+  const descriptionLine = transcript.description
+    ? `\n- 설명: ${transcript.description.replace(/\s+/g, ' ').slice(0, 500)}`
+    : '';
 
   // 자막이 있으면 먼저 정제
   const hasTranscript = transcript.transcript && transcript.transcript.length > 50;
+  const hasTimestamps = getTranscriptSegments(transcript).length > 0;
   let refinedTranscript = transcript.transcript;
+
+  // 긴 자막: 잘라내지 않고 구간별로 요약 (병합은 2단계에서)
+  if (hasTranscript && transcript.transcript.length > getChunkMaxChars(provider)) {
+    console.log('[Video Summarizer] 긴 자막 구간별 요약 시작...');
+    const chunkSummaries = await summarizeTranscriptInChunks(
+      provider,
+      transcript.transcript,
+      transcript.title,
+      transcript.duration,
+      onChunkProgress
+    );
+    const mainTopics = Array.from(new Set(chunkSummaries.flatMap(c => c.topics)));
+
+    return {
+      videoId: transcript.videoId,
+      title: transcript.title,
+      overview: `${chunkSummaries.length}개 구간으로 나누어 분석한 긴 콘텐츠. 주요 주제: ${mainTopics.slice(0, 8).join(', ')}`,
+      mainTopics,
+      keyPoints: chunkSummaries.flatMap(c => c.keyPoints.map(content => ({ content }))),
+      rawTranscript: '',
+      chunkSummaries
+    };
+  }
   
   if (hasTranscript) {
     console.log('[Video Summarizer] 자막 정제 시작...');
-    refinedTranscript = await refineTranscript(apiKey, transcript.transcript, transcript.title);
+    refinedTranscript = await refineTranscript(provider, transcript.transcript, transcript.title);
     console.log('[Video Summarizer] 자막 정제 완료:', refinedTranscript.length, '자');
   }
 
@@ -323,10 +540,10 @@ export async function step1_transcriptToJSON(
 
 ## 콘텐츠 정보
 - 제목: ${transcript.title}
-- 전체 길이: ${durationText}
+- 전체 길이: ${durationText}${descriptionLine}
 
 ## 정제된 내용
-${refinedTranscript.substring(0, 10000)}
+${refinedTranscript}
 
 ## 분석 요청
 1. 내용을 꼼꼼히 읽고 실제로 다루는 주제들을 파악하세요
@@ -340,19 +557,26 @@ ${refinedTranscript.substring(0, 10000)}
   "overview": "전체 내용 2-3문장 요약 (구체적인 주제와 다루는 내용 포함)",
   "mainTopics": ["실제 다루는 주제들을 나열"],
   "keyPoints": [
-    {"content": "다루는 구체적 내용 1"},
-    {"content": "다루는 구체적 내용 2"}
+    ${hasTimestamps
+      ? `{"content": "다루는 구체적 내용 1", "startTime": "m:ss"},
+    {"content": "다루는 구체적 내용 2", "startTime": "m:ss"}`
+      : `{"content": "다루는 구체적 내용 1"},
+    {"content": "다루는 구체적 내용 2"}`}
   ],
   "rawTranscript": ""
-}`
+}${hasTimestamps ? `
+
+## startTime 지침
+- 정제된 내용의 [m:ss] 표시 중 해당 내용이 시작되는 값을 그대로 쓰세요 (임의로 만들지 마세요)
+- keyPoints는 시간순으로 나열하세요` : ''}`
     : `"${transcript.title}" 제목을 분석하여 콘텐츠 내용을 예측해주세요.
 
 ## 콘텐츠 정보
 - 제목: ${transcript.title}
-- 전체 길이: ${durationText}
+- 전체 길이: ${durationText}${descriptionLine}
 
 ## 제목 분석 요청
-1. 제목에서 핵심 주제와 키워드를 추출하세요
+1. 제목${transcript.description ? '과 설명' : ''}에서 핵심 주제와 키워드를 추출하세요
 2. 시리즈물인 경우 (예: "1-3", "Part 2") 해당 파트에서 다룰 내용을 예측하세요
 3. 해당 주제에 대해 ${durationMinutes}분 분량으로 다룰 수 있는 내용을 구성하세요
 
@@ -369,19 +593,14 @@ ${refinedTranscript.substring(0, 10000)}
   "rawTranscript": ""
 }`;
 
-  const response = await callOpenAI(apiKey, [
+  const response = await provider.chat([
     { role: 'system', content: systemPrompt },
     { role: 'user', content: userPrompt }
   ], { temperature: 0.2, maxTokens: 3000, responseFormat: 'json_object' });
 
   // JSON 파싱
   try {
-    // JSON 블록 추출
-    const jsonMatch = response.match(/\{[\s\S]*\}/);
-    if (jsonMatch) {
-      return JSON.parse(jsonMatch[0]);
-    }
-    throw new Error('JSON 형식 응답을 찾을 수 없습니다');
+    return parseJSONResponse<VideoSummaryJSON>(response);
   } catch (e) {
     console.error('JSON 파싱 실패:', e);
     // 기본 구조 반환
@@ -400,11 +619,13 @@ ${refinedTranscript.substring(0, 10000)}
  * 2단계: JSON을 바탕으로 전체 영상 목차 정리 및 상세 요약
  */
 export async function step2_analyzeAndStructure(
-  apiKey: string,
+  provider: LLMProvider,
   summaryJSON: VideoSummaryJSON,
-  videoDuration?: number
+  videoDuration?: number,
+  segments: TranscriptSegment[] = []
 ): Promise<VideoAnalysis> {
   const estimatedDuration = videoDuration || 600;
+  const hasTimestamps = segments.length > 0;
   const durationMinutes = Math.floor(estimatedDuration / 60);
   const durationSeconds = estimatedDuration % 60;
   
@@ -440,11 +661,25 @@ export async function step2_analyzeAndStructure(
 ## 출력
 - 반드시 유효한 JSON 형식으로만 응답`;
 
+  // 긴 자막: 구간 요약은 시간순 텍스트로 따로 전달 (reduce)
+  const { chunkSummaries, ...summaryData } = summaryJSON;
+  const chunkSection = chunkSummaries && chunkSummaries.length > 0
+    ? `
+## 구간별 요약 (전체 ${chunkSummaries.length}개 구간, 시간순)
+${formatChunkSummaries(chunkSummaries)}
+
+## 구간 병합 지침 [매우 중요]
+- 목차와 요약은 처음부터 마지막 구간(${formatChunkRange(chunkSummaries[chunkSummaries.length - 1])})까지 전체를 빠짐없이 다뤄야 합니다.
+- 뒤쪽 구간의 내용도 앞쪽 구간과 같은 비중으로 반영하세요.
+- 긴 콘텐츠는 섹션이 10개를 넘어도 괜찮습니다.
+`
+    : '';
+
   const userPrompt = `다음 분석 데이터를 바탕으로 목차와 요약을 작성해주세요.
 
 ## 1단계 분석 결과
-${JSON.stringify(summaryJSON, null, 2)}
-
+${JSON.stringify(summaryData, null, 2)}
+${chunkSection}
 ## 콘텐츠 정보
 - 제목: ${summaryJSON.title}
 - 전체 길이: ${durationMinutes}분 ${durationSeconds}초
@@ -463,7 +698,11 @@ ${JSON.stringify(summaryJSON, null, 2)}
 ## 키워드 지침
 - 각 키워드는 "키워드: 한줄 설명" 형식으로 작성하세요.
 - 예: "SEO: 검색엔진 최적화로 웹사이트 노출을 높이는 마케팅 기법"
-
+${hasTimestamps ? `
+## 시작 시각 지침
+- 각 섹션의 startTime은 1단계 결과의 startTime, 핵심 내용 앞의 [m:ss], 구간 시간 범위 중 해당 섹션이 시작되는 값을 "m:ss" 형식으로 쓰세요.
+- 섹션은 시간순이어야 하며, 근거가 없으면 빈 문자열로 두세요.
+` : ''}
 ## 응답 형식 (JSON)
 {
   "videoId": "${summaryJSON.videoId}",
@@ -475,7 +714,8 @@ ${JSON.stringify(summaryJSON, null, 2)}
       "title": "구체적인 섹션 제목 (예: 마케팅의 정의와 핵심 개념)",
       "description": "이 섹션에서 다루는 구체적 내용 한 줄",
       "summary": "상세 내용. 해당 섹션의 모든 핵심 내용을 포함하여 충분히 길게 작성",
-      "keyPoints": ["핵심 포인트1", "핵심 포인트2", "핵심 포인트3"]
+      "keyPoints": ["핵심 포인트1", "핵심 포인트2", "핵심 포인트3"]${hasTimestamps ? `,
+      "startTime": "m:ss"` : ''}
     }
   ],
   "keywords": ["키워드1: 한줄 설명", "키워드2: 한줄 설명"],
@@ -484,30 +724,49 @@ ${JSON.stringify(summaryJSON, null, 2)}
   "category": "카테고리"
 }`;
 
-  const response = await callOpenAI(apiKey, [
+  const response = await provider.chat([
     { role: 'system', content: systemPrompt },
     { role: 'user', content: userPrompt }
   ], { temperature: 0.2, maxTokens: 4000, responseFormat: 'json_object' });
 
   try {
-    const jsonMatch = response.match(/\{[\s\S]*\}/);
-    if (jsonMatch) {
-      const parsed = JSON.parse(jsonMatch[0]);
-      // 목차에 기본값 추가 (AI가 생성한 개수 그대로 유지)
-      if (parsed.tableOfContents && Array.isArray(parsed.tableOfContents)) {
-        parsed.tableOfContents = parsed.tableOfContents.map((item: Partial<TableOfContentsItem>, i: number) => ({
-          title: item.title || `섹션 ${i + 1}`,
-          description: item.description || '',
-          summary: item.summary || item.description || '',
-          keyPoints: item.keyPoints || []
-        }));
-      }
-      return parsed;
+    const parsed = parseJSONResponse<VideoAnalysis>(response);
+    // 목차에 기본값 추가 (AI가 생성한 개수 그대로 유지)
+    if (parsed.tableOfContents && Array.isArray(parsed.tableOfContents)) {
+      const rawToc = parsed.tableOfContents as Array<Partial<TableOfContentsItem> & { startTime?: string | number }>;
+      const startTimes = verifySectionTimestamps(rawToc.map(item => item.startTime), segments, videoDuration);
+      parsed.tableOfContents = rawToc.map((item, i) => ({
+        title: item.title || `섹션 ${i + 1}`,
+        description: item.description || '',
+        summary: item.summary || item.description || '',
+        keyPoints: item.keyPoints || [],
+        timestampSeconds: startTimes[i]
+      }));
     }
-    throw new Error('JSON 형식 응답을 찾을 수 없습니다');
+    return parsed;
   } catch (e) {
     console.error('JSON 파싱 실패:', e);
+    // 폴백 응답 - 구간 요약이 있으면 구간별 목차
+    if (chunkSummaries && chunkSummaries.length > 0) {
+      const chunkStarts = verifySectionTimestamps(chunkSummaries.map(c => c.startSeconds), segments, videoDuration);
+      return {
+        videoId: summaryJSON.videoId,
+        title: summaryJSON.title,
+        duration: estimatedDuration,
+        summary: chunkSummaries.map(c => c.summary).join('\n\n'),
+        tableOfContents: chunkSummaries.map((c, i) => ({
+          title: c.topics[0] || `구간 ${c.index + 1}`,
+          description: formatChunkRange(c),
+          summary: c.summary,
+          keyPoints: c.keyPoints,
+          timestampSeconds: chunkStarts[i]
+        })),
+        keywords: summaryJSON.mainTopics || [],
+        keyInsights: []
+      };
+    }
     // 폴백 응답 - keyPoints 개수에 따라 동적으로 생성
+    const keyPointStarts = verifySectionTimestamps((summaryJSON.keyPoints || []).map(kp => kp.startTime), segments, videoDuration);
     return {
       videoId: summaryJSON.videoId,
       title: summaryJSON.title,
@@ -517,7 +776,8 @@ ${JSON.stringify(summaryJSON, null, 2)}
         title: kp.content?.substring(0, 30) || `섹션 ${i + 1}`,
         description: kp.content || '',
         summary: kp.content || '',
-        keyPoints: []
+        keyPoints: [],
+        timestampSeconds: keyPointStarts[i]
       })),
       keywords: summaryJSON.mainTopics || [],
       keyInsights: []
@@ -526,14 +786,13 @@ ${JSON.stringify(summaryJSON, null, 2)}
 }
 
 /**
- * 3단계: 질문에 답변하기 (채팅)
+ * 3단계 채팅 메시지 구성 (분석 데이터를 담은 시스템 프롬프트 + 대화 기록 + 질문)
  */
-export async function step3_chatWithVideo(
-  apiKey: string,
+function buildChatMessages(
   analysis: VideoAnalysis,
   chatHistory: ChatMessage[],
   userQuestion: string
-): Promise<ChatResponse> {
+): ChatMessage[] {
   // 목차 정보를 상세하게 포맷팅 (타임스탬프 없이)
   const tocFormatted = analysis.tableOfContents.map((t, i) => 
     `[섹션 ${i + 1}] ${t.title}
@@ -594,13 +853,23 @@ ${tocFormatted}
 - 관련 내용이 있으면 해당 내용을 직접 인용하거나 요약해서 설명
 - 목록이 필요하면 번호나 불릿 사용`;
 
-  const messages: ChatMessage[] = [
+  return [
     { role: 'system', content: systemPrompt },
     ...chatHistory,
     { role: 'user', content: userQuestion }
   ];
+}
 
-  const response = await callOpenAI(apiKey, messages, {
+/**
+ * 3단계: 질문에 답변하기 (채팅)
+ */
+export async function step3_chatWithVideo(
+  provider: LLMProvider,
+  analysis: VideoAnalysis,
+  chatHistory: ChatMessage[],
+  userQuestion: string
+): Promise<ChatResponse> {
+  const response = await provider.chat(buildChatMessages(analysis, chatHistory, userQuestion), {
     temperature: 0.7,
     maxTokens: 1000
   });
@@ -617,51 +886,125 @@ ${tocFormatted}
   };
 }
 
+/**
+ * 3단계: 질문에 답변하기 (스트리밍)
+ * 생성되는 답변 조각을 차례로 반환하며, signal로 중단 가능
+ */
+export async function* step3_chatWithVideoStream(
+  provider: LLMProvider,
+  analysis: VideoAnalysis,
+  chatHistory: ChatMessage[],
+  userQuestion: string,
+  signal?: AbortSignal
+): AsyncGenerator<string> {
+  yield* provider.chatStream(buildChatMessages(analysis, chatHistory, userQuestion), {
+    temperature: 0.7,
+    maxTokens: 1000,
+    signal
+  });
+}
+
 /**
  * 전체 분석 파이프라인 실행
  */
 export async function analyzeVideo(
-  apiKey: string,
+  provider: LLMProvider,
   transcript: VideoTranscript,
   onProgress?: (step: number, message: string) => void
 ): Promise<VideoAnalysis> {
   // 1단계: 트랜스크립트 → JSON
   onProgress?.(1, '비디오 내용을 분석하고 있습니다...');
-  const summaryJSON = await step1_transcriptToJSON(apiKey, transcript);
+  const summaryJSON = await step1_transcriptToJSON(provider, transcript, (done, total) => {
+    onProgress?.(1, `긴 자막을 구간별로 요약하고 있습니다... (${done}/${total})`);
+  });
   
-  // 2단계: JSON → 상세 분석 (비디오 길이 전달)
+  // 2단계: JSON → 상세 분석 (비디오 길이, 시작 시각 검증용 세그먼트 전달)
   onProgress?.(2, '목차와 요약을 생성하고 있습니다...');
-  const analysis = await step2_analyzeAndStructure(apiKey, summaryJSON, transcript.duration);
+  const analysis = await step2_analyzeAndStructure(
+    provider,
+    summaryJSON,
+    transcript.duration,
+    getTranscriptSegments(transcript)
+  );
   
   onProgress?.(3, '분석 완료!');
   return analysis;
 }
 
+// Content Script에서 가져온 자막
+type PageTranscript = { transcript: string; segments: TranscriptSegment[]; language?: string };
+
 /**
- * YouTube 자막 가져오기
- * Content Script를 통해 페이지에서 직접 자막을 추출
+ * Content Script에 자막 요청 (프레임을 모르면 자막이 있는 프레임이 응답)
+ * @param target 대상 탭/프레임 (생략 시 현재 활성 탭의 모든 프레임)
  */
-export async function getYouTubeTranscript(videoId: string): Promise<{ transcript: string; segments: Array<{ start: number; text: string }> } | null> {
-  try {
-    // 현재 탭에서 자막 가져오기 요청
-    const [tab] = await chrome.tabs.query({ active: true, currentWindow: true });
-    if (!tab.id) return null;
+async function requestPageTranscript(message: Message, target?: PageTarget): Promise<PageTranscript | null> {
+  const response = await sendToPage<{ transcript?: string; segments?: TranscriptSegment[]; language?: string }>(message, target);
 
-    const response = await chrome.tabs.sendMessage(tab.id, {
-      type: 'GET_YOUTUBE_TRANSCRIPT',
-      videoId
-    }).catch(() => null);
+  if (response?.transcript) {
+    return {
+      transcript: response.transcript,
+      segments: response.segments || [],
+      language: response.language
+    };
+  }
 
-    if (response?.transcript) {
-      return {
-        transcript: response.transcript,
-        segments: response.segments || []
-      };
-    }
+  return null;
+}
 
+/**
+ * 플랫폼 자막 가져오기 (YouTube, Vimeo, Dailymotion, Wistia, Loom, TED, Coursera)
+ * Content Script의 플랫폼 어댑터를 통해 페이지에서 직접 자막을 추출
+ * @param target 대상 탭/프레임 (생략 시 현재 활성 탭의 모든 프레임)
+ * @param caption 자막 트랙 (생략 시 사용자 언어의 수동 자막 우선 자동 선택)
+ */
+export async function getPlatformTranscript(
+  platform: VideoPlatform,
+  videoId: string,
+  target?: PageTarget,
+  caption?: CaptionSelection
+): Promise<PageTranscript | null> {
+  try {
+    return await requestPageTranscript({ type: 'GET_TRANSCRIPT', platform, videoId, caption }, target);
+  } catch (error) {
+    console.error(`${platform} 자막 가져오기 실패:`, error);
     return null;
+  }
+}
+
+/**
+ * HTML5 비디오 자막 가져오기 (<track> WebVTT/SRT 또는 textTracks)
+ * @param sourceUrl 대상 비디오 소스 URL (생략 시 페이지의 기본 비디오)
+ * @param target 대상 탭/프레임 (생략 시 현재 활성 탭의 모든 프레임)
+ */
+export async function getHTML5Transcript(
+  sourceUrl?: string,
+  target?: PageTarget
+): Promise<PageTranscript | null> {
+  try {
+    return await requestPageTranscript({ type: 'GET_HTML5_TRANSCRIPT', sourceUrl }, target);
   } catch (error) {
-    console.error('YouTube 자막 가져오기 실패:', error);
+    console.error('HTML5 자막 가져오기 실패:', error);
+    return null;
+  }
+}
+
+/**
+ * 스트림 자막 파일 가져오기 (DASH 매니페스트의 WebVTT/TTML 자막 트랙)
+ */
+export async function getSubtitleFileTranscript(
+  url: string,
+  language?: string
+): Promise<PageTranscript | null> {
+  try {
+    const response = await fetch(url, { credentials: 'include' });
+    if (!response.ok) {
+      throw new Error(`자막 파일을 가져올 수 없습니다 (${response.status})`);
+    }
+    const segments = parseSubtitles(await response.text());
+    return { transcript: segmentsToTranscript(segments), segments, language };
+  } catch (error) {
+    console.error('스트림 자막 가져오기 실패:', error);
     return null;
   }
 }
@@ -669,9 +1012,16 @@ export async function getYouTubeTranscript(videoId: string): Promise<{ transcrip
 /**
  * API 키 유효성 검사
  */
-export async function validateApiKey(apiKey: string): Promise<boolean> {
+export async function validateApiKey(apiKey: string, model: string = 'gpt-4o-mini'): Promise<boolean> {
+  return validateProvider(new OpenAIProvider({ apiKey, model }));
+}
+
+/**
+ * 제공자 연결 확인 (짧은 요청으로 키/엔드포인트 검증)
+ */
+export async function validateProvider(provider: LLMProvider): Promise<boolean> {
   try {
-    await callOpenAI(apiKey, [
+    await provider.chat([
       { role: 'user', content: 'Hi' }
     ], { maxTokens: 5 });
     return true;
@@ -680,6 +1030,48 @@ export async function validateApiKey(apiKey: string): Promise<boolean> {
   }
 }
 
+/**
+ * Gemini API 키 유효성 검사 (모델 목록 조회)
+ */
+export async function validateGeminiApiKey(apiKey: string): Promise<boolean> {
+  try {
+    const response = await fetch(`https://generativelanguage.googleapis.com/v1beta/models?key=${encodeURIComponent(apiKey)}`);
+    return response.ok;
+  } catch {
+    return false;
+  }
+}
+
+/**
+ * 페이지의 비디오에서 프레임 캡처 (Content Script에 요청)
+ * 복제 비디오/시청 중 캡처한 사진으로 안 되면 needsSeekConsent (options.allowSeek 없이 요청한 경우)
+ * @param elementPath 프레임 안의 비디오 요소 경로 (생략 시 플랫폼 플레이어/첫 번째 video)
+ * @param target 대상 탭/프레임 (생략 시 현재 활성 탭의 모든 프레임)
+ */
+export async function capturePageFrames(
+  elementPath?: string[],
+  options: FrameCaptureOptions = {},
+  target?: PageTarget
+): Promise<{ frames: VideoFrame[]; duration: number; needsSeekConsent?: boolean }> {
+  const response = await sendToPage<{ frames?: VideoFrame[]; duration?: number; error?: string; needsSeekConsent?: boolean }>(
+    { type: 'CAPTURE_VIDEO_FRAMES', elementPath, capture: options },
+    target
+  );
+
+  if (!response) {
+    throw new Error('페이지에서 비디오를 찾을 수 없습니다. 페이지를 새로고침한 뒤 다시 시도해주세요.');
+  }
+  // 재생을 방해하지 않는 방법으로는 캡처할 수 없음 (allowSeek로 다시 요청해야 함)
+  if (response.needsSeekConsent) {
+    return { frames: [], duration: response.duration || 0, needsSeekConsent: true };
+  }
+  if (!response.frames || response.frames.length === 0) {
+    throw new Error(response.error ? `화면 캡처 실패: ${response.error}` : '화면을 캡처하지 못했습니다.');
+  }
+
+  return { frames: response.frames, duration: response.duration || 0 };
+}
+
 /**
  * 비디오에서 프레임 캡처
  * @param videoElement HTML5 비디오 엘리먼트
@@ -774,19 +1166,48 @@ function captureFrameAtTime(
   });
 }
 
+/**
+ * 사진 시간 표시 (묶인 사진은 구간)
+ */
+function formatFrameTime(frame: VideoFrame): string {
+  return frame.endTimestamp !== undefined
+    ? `${formatSeconds(frame.timestamp)}~${formatSeconds(frame.endTimestamp)}`
+    : formatSeconds(frame.timestamp);
+}
+
 /**
  * 멀티모달 분석: 프레임 + 음성 텍스트로 영상 분석
+ * 비슷한 사진은 분석 전에 하나로 묶음
  */
 export async function analyzeVideoMultimodal(
-  apiKey: string,
+  provider: LLMProvider,
   input: MultimodalAnalysisInput,
   onProgress?: (step: number, message: string) => void
 ): Promise<VideoAnalysis> {
-  // 자막이 있으면 먼저 정제
+  // 자막 정제 등 다른 요청을 보내기 전에 확인
+  if (!provider.supportsVision) {
+    throw new Error(`${provider.name} 제공자는 사진 분석을 지원하지 않습니다.`);
+  }
+
+  // 같은 화면을 여러 번 캡처한 사진은 하나로 묶음 (비용 절감, 섹션 구분 정확도)
+  // 제공자는 최대 MAX_VISION_IMAGES장만 보내므로 프롬프트/주요 프레임도 같은 사진만 사용
+  const frames = (await dedupeFrames(input.frames)).slice(0, MAX_VISION_IMAGES);
+
+  // 자막이 있으면 먼저 정제 (긴 자막은 구간별 요약으로 대체)
   let refinedTranscript = input.transcript;
-  if (input.transcript && input.transcript.length > 100) {
+  let chunkSummaries: ChunkSummary[] = [];
+  if (input.transcript && input.transcript.length > getChunkMaxChars(provider)) {
+    chunkSummaries = await summarizeTranscriptInChunks(
+      provider,
+      input.transcript,
+      input.title,
+      input.duration,
+      (done, total) => onProgress?.(1, `긴 음성 텍스트를 구간별로 요약하고 있습니다... (${done}/${total})`)
+    );
+    refinedTranscript = undefined;
+  } else if (input.transcript && input.transcript.length > 100) {
     onProgress?.(1, '음성 텍스트를 정제하고 있습니다...');
-    refinedTranscript = await refineTranscript(apiKey, input.transcript, input.title);
+    refinedTranscript = await refineTranscript(provider, input.transcript, input.title);
   }
 
   onProgress?.(2, '캡처된 사진을 분석하고 있습니다...');
@@ -820,48 +1241,65 @@ export async function analyzeVideoMultimodal(
   "keywords": ["키워드1", "키워드2"],
   "keyInsights": ["주요 인사이트1", "주요 인사이트2"],
   "difficulty": "beginner|intermediate|advanced",
-  "category": "카테고리"
+  "category": "카테고리",
+  "frames": [
+    {
+      "index": 1,
+      "description": "사진의 화면 내용 설명 (1문장)",
+      "type": "diagram|chart|slide|code|screenshot|scene",
+      "relatedSection": "관련 섹션 제목"
+    }
+  ]
 }`;
 
   // 이미지와 함께 분석 요청
-  const images = input.frames.map(f => ({
+  const images = frames.map(f => ({
     base64: f.imageBase64,
     timestamp: f.timestamp
   }));
 
-  const frameInfo = input.frames.map((_, i) => 
-    `[사진 ${i + 1}]`
+  const frameInfo = frames.map((frame, i) => 
+    `[사진 ${i + 1}] ${formatFrameTime(frame)}`
   ).join('\n');
 
+  const descriptionLine = input.description ? `\n- 설명: ${input.description.slice(0, 500)}` : '';
+
   let userPrompt = `## 콘텐츠 정보
 - 제목: ${input.title}
-- 전체 길이: ${Math.floor(input.duration / 60)}분 ${input.duration % 60}초
+- 전체 길이: ${Math.floor(input.duration / 60)}분 ${Math.floor(input.duration % 60)}초${descriptionLine}
 
-## 캡처된 사진 (${input.frames.length}장)
+## 캡처된 사진 (${frames.length}장)
 ${frameInfo}
 
 `;
 
   if (refinedTranscript) {
     userPrompt += `## 음성 텍스트 (정제됨)
-${refinedTranscript.substring(0, 6000)}
+${refinedTranscript}
+
+`;
+  }
+
+  if (chunkSummaries.length > 0) {
+    userPrompt += `## 음성 텍스트 구간별 요약 (시간순)
+${formatChunkSummaries(chunkSummaries)}
 
 `;
   }
 
   userPrompt += `위 사진들과 음성 텍스트를 분석하여 콘텐츠 내용을 파악하고, JSON 형식으로 응답해주세요.
-각 사진의 화면 내용(슬라이드, 텍스트, 그래프 등)을 파악하고, 전체적인 흐름을 정리하여 목차를 생성해주세요.`;
+각 사진의 화면 내용(슬라이드, 텍스트, 그래프 등)을 파악하고, 전체적인 흐름을 정리하여 목차를 생성해주세요.
+frames에는 모든 사진에 대해 번호(index)와 화면 내용을 적어주세요.`;
 
   try {
-    const response = await callOpenAIVision(apiKey, systemPrompt, userPrompt, images, {
-      model: 'gpt-4o',
+    const response = await provider.vision(systemPrompt, userPrompt, images, {
       temperature: 0.2,
       maxTokens: 4000
     });
 
     onProgress?.(3, '분석 결과를 정리하고 있습니다...');
 
-    const result = JSON.parse(response);
+    const result = parseJSONResponse<Partial<VideoAnalysis> & { frames?: Array<Partial<KeyFrame> & { index?: number }> }>(response);
     
     // 목차에서 타임스탬프 제거하고 정리
     const cleanedToc = (result.tableOfContents || []).map((item: Partial<TableOfContentsItem>, i: number) => ({
@@ -871,6 +1309,22 @@ ${refinedTranscript.substring(0, 6000)}
       keyPoints: item.keyPoints || []
     }));
     
+    // 캡처한 사진을 주요 장면으로 (설명은 사진 번호로 매칭, 없으면 기본값)
+    const keyFrames: KeyFrame[] = frames.map((frame, i) => {
+      const info = (result.frames || []).find(item => item.index === i + 1);
+      return {
+        timestamp: formatFrameTime(frame),
+        timestampSeconds: frame.timestamp,
+        endTimestampSeconds: frame.endTimestamp,
+        description: info?.description || `사진 ${i + 1}`,
+        type: info?.type && KEY_FRAME_TYPES.includes(info.type) ? info.type : 'scene',
+        relatedSection: info?.relatedSection || '',
+        imageBase64: frame.imageBase64,
+        width: frame.width,
+        height: frame.height
+      };
+    });
+
     onProgress?.(3, '분석 완료!');
 
     return {
@@ -882,7 +1336,8 @@ ${refinedTranscript.substring(0, 6000)}
       keywords: result.keywords || [],
       keyInsights: result.keyInsights || [],
       difficulty: result.difficulty,
-      category: result.category
+      category: result.category,
+      keyFrames: keyFrames.length > 0 ? keyFrames : undefined
     };
   } catch (error) {
     console.error('멀티모달 분석 실패:', error);
@@ -901,7 +1356,7 @@ export async function analyzeVideoWithGemini(
   _transcript?: string, // 백엔드에서 Whisper로 자동 변환하므로 현재 미사용
   onProgress?: (step: number, message: string) => void
 ): Promise<VideoAnalysis> {
-  const backendUrl = getBackendApiUrl();
+  const backendUrl = await getBackendApiUrl();
   
   onProgress?.(1, '백엔드 서버로 비디오 전송 중...');
 
@@ -0,0 +1,28 @@
+/**
+ * 페이지(Content Script) 메시지 전송
+ * Content Script는 모든 프레임에서 실행되므로, 비디오가 있는 프레임을 알면 그 프레임에만 보냄
+ */
+
+import type { Message } from '../types';
+
+export interface PageTarget {
+  tabId?: number;   // 생략 시 현재 활성 탭
+  frameId?: number; // 생략 시 모든 프레임 (처리할 수 있는 프레임이 응답)
+}
+
+/**
+ * 메시지 전송 후 응답 반환 (응답이 없거나 실패하면 null)
+ * 지정한 프레임이 사라졌으면 모든 프레임에 다시 요청
+ */
+export async function sendToPage<T>(message: Message, target: PageTarget = {}): Promise<T | null> {
+  const tabId = target.tabId ?? (await chrome.tabs.query({ active: true, currentWindow: true }))[0]?.id;
+  if (!tabId) return null;
+
+  if (target.frameId !== undefined) {
+    const response = await chrome.tabs.sendMessage(tabId, message, { frameId: target.frameId }).catch(() => null);
+    if (response) return response as T;
+  }
+
+  const response = await chrome.tabs.sendMessage(tabId, message).catch(() => null);
+  return (response as T) ?? null;
+}
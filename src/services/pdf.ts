@@ -0,0 +1,120 @@
+/**
+ * 최소 PDF 작성기
+ * 페이지마다 JPEG 이미지 한 장과 링크 영역만 담은 PDF를 직접 생성 (외부 라이브러리 없음)
+ * 한글 글꼴을 PDF에 넣지 않도록 텍스트는 미리 캔버스에 그려서 이미지로 전달
+ */
+
+// 페이지 내 링크 영역 (이미지 픽셀 좌표, 왼쪽 위 기준)
+export interface PdfLink {
+  x: number;
+  y: number;
+  width: number;
+  height: number;
+  url: string;
+}
+
+export interface PdfPage {
+  jpeg: Uint8Array;   // JPEG 바이트
+  width: number;      // 이미지 픽셀 크기
+  height: number;
+  links: PdfLink[];
+}
+
+// A4 (포인트 단위)
+export const A4_WIDTH_PT = 595.28;
+export const A4_HEIGHT_PT = 841.89;
+
+/**
+ * PDF 문자열 리터럴 이스케이프
+ */
+function escapePdfString(value: string): string {
+  return value.replace(/[\\()]/g, match => `\\${match}`);
+}
+
+/**
+ * 숫자를 PDF에 쓸 형식으로 (소수점 2자리)
+ */
+function num(value: number): string {
+  return Number(value.toFixed(2)).toString();
+}
+
+/**
+ * JPEG 페이지들로 PDF 생성
+ */
+export function buildPdf(pages: PdfPage[], pageWidth = A4_WIDTH_PT, pageHeight = A4_HEIGHT_PT): Blob {
+  const encoder = new TextEncoder();
+  const chunks: Uint8Array[] = [];
+  const offsets: number[] = [];
+  let length = 0;
+
+  const write = (data: string | Uint8Array) => {
+    const bytes = typeof data === 'string' ? encoder.encode(data) : data;
+    chunks.push(bytes);
+    length += bytes.length;
+  };
+
+  // 객체 번호: 1 = Catalog, 2 = Pages, 이후 페이지마다 Page, Contents, Image, 링크 순서
+  let nextId = 3;
+  const layout = pages.map(page => {
+    const pageId = nextId++;
+    const contentId = nextId++;
+    const imageId = nextId++;
+    const linkIds = page.links.map(() => nextId++);
+    return { page, pageId, contentId, imageId, linkIds };
+  });
+
+  const beginObject = (id: number) => {
+    offsets[id] = length;
+    write(`${id} 0 obj\n`);
+  };
+
+  write('%PDF-1.4\n%\xE2\xE3\xCF\xD3\n');
+
+  beginObject(1);
+  write('<< /Type /Catalog /Pages 2 0 R >>\nendobj\n');
+
+  beginObject(2);
+  write(`<< /Type /Pages /Kids [${layout.map(l => `${l.pageId} 0 R`).join(' ')}] /Count ${layout.length} >>\nendobj\n`);
+
+  for (const { page, pageId, contentId, imageId, linkIds } of layout) {
+    const scaleX = pageWidth / page.width;
+    const scaleY = pageHeight / page.height;
+    const annots = linkIds.length > 0 ? ` /Annots [${linkIds.map(id => `${id} 0 R`).join(' ')}]` : '';
+
+    beginObject(pageId);
+    write(`<< /Type /Page /Parent 2 0 R /MediaBox [0 0 ${num(pageWidth)} ${num(pageHeight)}] `
+      + `/Resources << /XObject << /Im0 ${imageId} 0 R >> >> /Contents ${contentId} 0 R${annots} >>\nendobj\n`);
+
+    // 이미지를 페이지 전체에 그리기
+    const content = `q ${num(pageWidth)} 0 0 ${num(pageHeight)} 0 0 cm /Im0 Do Q`;
+    beginObject(contentId);
+    write(`<< /Length ${content.length} >>\nstream\n${content}\nendstream\nendobj\n`);
+
+    beginObject(imageId);
+    write(`<< /Type /XObject /Subtype /Image /Width ${page.width} /Height ${page.height} `
+      + `/ColorSpace /DeviceRGB /BitsPerComponent 8 /Filter /DCTDecode /Length ${page.jpeg.length} >>\nstream\n`);
+    write(page.jpeg);
+    write('\nendstream\nendobj\n');
+
+    // 링크 (PDF 좌표는 왼쪽 아래 기준)
+    page.links.forEach((link, i) => {
+      const x1 = link.x * scaleX;
+      const y1 = pageHeight - (link.y + link.height) * scaleY;
+      const x2 = (link.x + link.width) * scaleX;
+      const y2 = pageHeight - link.y * scaleY;
+      beginObject(linkIds[i]);
+      write(`<< /Type /Annot /Subtype /Link /Rect [${num(x1)} ${num(y1)} ${num(x2)} ${num(y2)}] /Border [0 0 0] `
+        + `/A << /S /URI /URI (${escapePdfString(link.url)}) >> >>\nendobj\n`);
+    });
+  }
+
+  // 상호 참조 테이블
+  const xrefOffset = length;
+  write(`xref\n0 ${nextId}\n0000000000 65535 f \n`);
+  for (let id = 1; id < nextId; id++) {
+    write(`${offsets[id].toString().padStart(10, '0')} 00000 n \n`);
+  }
+  write(`trailer\n<< /Size ${nextId} /Root 1 0 R >>\nstartxref\n${xrefOffset}\n%%EOF\n`);
+
+  return new Blob(chunks as BlobPart[], { type: 'application/pdf' });
+}
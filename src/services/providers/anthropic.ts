@@ -0,0 +1,148 @@
+import type { ChatMessage, ChatOptions, LLMProvider, ProviderConfig, ProviderId, VisionImage } from './types';
+import { JSON_ONLY_INSTRUCTION, MAX_VISION_IMAGES } from './types';
+import { readServerSentEvents } from './sse';
+
+const ANTHROPIC_API_URL = 'https://api.anthropic.com/v1/messages';
+const ANTHROPIC_VERSION = '2023-06-01';
+
+type AnthropicContentBlock =
+  | { type: 'text'; text: string }
+  | { type: 'image'; source: { type: 'base64'; media_type: string; data: string } };
+
+interface AnthropicMessage {
+  role: 'user' | 'assistant';
+  content: string | AnthropicContentBlock[];
+}
+
+/**
+ * Anthropic Messages API 제공자
+ * JSON 모드가 없으므로 JSON 요청 시 시스템 프롬프트에 지시문 추가
+ */
+export class AnthropicProvider implements LLMProvider {
+  readonly id: ProviderId = 'anthropic';
+  readonly name: string = 'Anthropic';
+  readonly supportsVision: boolean = true;
+  readonly supportsJsonMode: boolean = false;
+  readonly maxContextTokens: number = 200000;
+  readonly maxOutputTokens: number = 8192;
+
+  private readonly config: ProviderConfig;
+
+  constructor(config: ProviderConfig) {
+    this.config = config;
+  }
+
+  async chat(messages: ChatMessage[], options: ChatOptions = {}): Promise<string> {
+    const response = await this.request(this.buildChatBody(messages, options), options.signal);
+    return this.extractText(await response.json());
+  }
+
+  async *chatStream(messages: ChatMessage[], options: ChatOptions = {}): AsyncGenerator<string> {
+    const response = await this.request({ ...this.buildChatBody(messages, options), stream: true }, options.signal);
+
+    for await (const data of readServerSentEvents(response)) {
+      try {
+        const event = JSON.parse(data);
+        if (event.type === 'content_block_delta' && event.delta?.text) {
+          yield event.delta.text;
+        } else if (event.type === 'error') {
+          throw new Error(event.error?.message || 'Anthropic 스트리밍 오류');
+        }
+      } catch (error) {
+        if (!(error instanceof SyntaxError)) throw error;
+      }
+    }
+  }
+
+  async vision(
+    systemPrompt: string,
+    userPrompt: string,
+    images: VisionImage[],
+    options: ChatOptions = {}
+  ): Promise<string> {
+    const { temperature = 0.2, maxTokens = 4000 } = options;
+
+    const content: AnthropicContentBlock[] = images.slice(0, MAX_VISION_IMAGES).map(img => ({
+      type: 'image',
+      source: { type: 'base64', media_type: 'image/jpeg', data: img.base64 }
+    }));
+    content.push({ type: 'text', text: userPrompt });
+
+    const response = await this.request({
+      model: options.model || this.config.visionModel || this.config.model,
+      system: systemPrompt + JSON_ONLY_INSTRUCTION,
+      messages: [{ role: 'user', content }],
+      temperature,
+      max_tokens: Math.min(maxTokens, this.maxOutputTokens)
+    }, options.signal);
+    return this.extractText(await response.json());
+  }
+
+  /**
+   * 채팅 요청 본문 구성 (system 메시지 분리)
+   */
+  private buildChatBody(messages: ChatMessage[], options: ChatOptions): Record<string, unknown> {
+    const { temperature = 0.3, maxTokens = 2000, responseFormat = 'text' } = options;
+
+    let system = messages
+      .filter(m => m.role === 'system')
+      .map(m => m.content)
+      .join('\n\n');
+    if (responseFormat === 'json_object') {
+      system += JSON_ONLY_INSTRUCTION;
+    }
+
+    const anthropicMessages: AnthropicMessage[] = messages
+      .filter(m => m.role !== 'system')
+      .map(m => ({ role: m.role as 'user' | 'assistant', content: m.content }));
+
+    // 첫 메시지는 user여야 하므로 앞쪽의 assistant 메시지(인사말 등) 제외
+    while (anthropicMessages.length > 0 && anthropicMessages[0].role === 'assistant') {
+      anthropicMessages.shift();
+    }
+
+    return {
+      model: options.model || this.config.model,
+      system,
+      messages: anthropicMessages,
+      temperature,
+      max_tokens: Math.min(maxTokens, this.maxOutputTokens)
+    };
+  }
+
+  /**
+   * Messages API 호출 (실패 시 에러)
+   */
+  private async request(requestBody: Record<string, unknown>, signal?: AbortSignal): Promise<Response> {
+    const response = await fetch(ANTHROPIC_API_URL, {
+      method: 'POST',
+      headers: {
+        'Content-Type': 'application/json',
+        'x-api-key': this.config.apiKey,
+        'anthropic-version': ANTHROPIC_VERSION,
+        // 확장 프로그램(브라우저)에서 직접 호출 허용
+        'anthropic-dangerous-direct-browser-access': 'true'
+      },
+      body: JSON.stringify(requestBody),
+      signal
+    });
+
+    if (!response.ok) {
+      const error = await response.json().catch(() => ({}));
+      throw new Error(error.error?.message || `Anthropic API 호출 실패 (${response.status})`);
+    }
+
+    return response;
+  }
+
+  /**
+   * 응답의 text 블록 추출
+   */
+  private extractText(data: { content?: Array<{ type: string; text?: string }> }): string {
+    const blocks = data.content || [];
+    return blocks
+      .filter(b => b.type === 'text')
+      .map(b => b.text || '')
+      .join('');
+  }
+}
@@ -0,0 +1,149 @@
+import type { ChatMessage, ChatOptions, LLMProvider, ProviderConfig, ProviderId, VisionImage } from './types';
+import { MAX_VISION_IMAGES } from './types';
+import { readServerSentEvents } from './sse';
+
+const GEMINI_BASE_URL = 'https://generativelanguage.googleapis.com/v1beta';
+
+// Gemini generateContent 요청의 part
+type GeminiPart = { text: string } | { inline_data: { mime_type: string; data: string } };
+
+interface GeminiContent {
+  role: 'user' | 'model';
+  parts: GeminiPart[];
+}
+
+interface GenerateParams {
+  systemText: string;
+  contents: GeminiContent[];
+  temperature: number;
+  maxTokens: number;
+  json: boolean;
+}
+
+/**
+ * Gemini 직접 호출 제공자 (generateContent API)
+ * 백엔드(/analyze)를 거치지 않고 브라우저에서 바로 호출
+ */
+export class GeminiProvider implements LLMProvider {
+  readonly id: ProviderId = 'gemini';
+  readonly name: string = 'Gemini';
+  readonly supportsVision: boolean = true;
+  readonly supportsJsonMode: boolean = true;
+  readonly maxContextTokens: number = 1000000;
+  readonly maxOutputTokens: number = 8192;
+
+  private readonly config: ProviderConfig;
+
+  constructor(config: ProviderConfig) {
+    this.config = config;
+  }
+
+  async chat(messages: ChatMessage[], options: ChatOptions = {}): Promise<string> {
+    const response = await this.generate(options.model || this.config.model, this.buildChatParams(messages, options), options.signal);
+    return this.extractText(await response.json());
+  }
+
+  async *chatStream(messages: ChatMessage[], options: ChatOptions = {}): AsyncGenerator<string> {
+    const response = await this.generate(
+      options.model || this.config.model,
+      this.buildChatParams(messages, options),
+      options.signal,
+      true
+    );
+
+    for await (const data of readServerSentEvents(response)) {
+      try {
+        const text = this.extractText(JSON.parse(data));
+        if (text) yield text;
+      } catch {
+        // JSON이 아닌 이벤트 무시
+      }
+    }
+  }
+
+  async vision(
+    systemPrompt: string,
+    userPrompt: string,
+    images: VisionImage[],
+    options: ChatOptions = {}
+  ): Promise<string> {
+    const { temperature = 0.2, maxTokens = 4000 } = options;
+
+    const parts: GeminiPart[] = [{ text: userPrompt }];
+    images.slice(0, MAX_VISION_IMAGES).forEach(img => {
+      parts.push({ inline_data: { mime_type: 'image/jpeg', data: img.base64 } });
+    });
+
+    const response = await this.generate(options.model || this.config.visionModel || this.config.model, {
+      systemText: systemPrompt,
+      contents: [{ role: 'user', parts }],
+      temperature,
+      maxTokens,
+      json: true
+    }, options.signal);
+    return this.extractText(await response.json());
+  }
+
+  /**
+   * 채팅 메시지를 generateContent 파라미터로 변환 (system 메시지는 systemInstruction으로 분리)
+   */
+  private buildChatParams(messages: ChatMessage[], options: ChatOptions): GenerateParams {
+    const { temperature = 0.3, maxTokens = 2000, responseFormat = 'text' } = options;
+
+    const systemText = messages
+      .filter(m => m.role === 'system')
+      .map(m => m.content)
+      .join('\n\n');
+
+    const contents: GeminiContent[] = messages
+      .filter(m => m.role !== 'system')
+      .map(m => ({
+        role: m.role === 'assistant' ? 'model' : 'user',
+        parts: [{ text: m.content }]
+      }));
+
+    return { systemText, contents, temperature, maxTokens, json: responseFormat === 'json_object' };
+  }
+
+  /**
+   * generateContent (stream이면 streamGenerateContent SSE) 호출 (실패 시 에러)
+   */
+  private async generate(model: string, params: GenerateParams, signal?: AbortSignal, stream = false): Promise<Response> {
+    const requestBody: Record<string, unknown> = {
+      contents: params.contents,
+      generationConfig: {
+        temperature: params.temperature,
+        maxOutputTokens: Math.min(params.maxTokens, this.maxOutputTokens),
+        ...(params.json ? { responseMimeType: 'application/json' } : {})
+      }
+    };
+
+    if (params.systemText) {
+      requestBody.systemInstruction = { parts: [{ text: params.systemText }] };
+    }
+
+    const method = stream ? 'streamGenerateContent?alt=sse&' : 'generateContent?';
+    const url = `${GEMINI_BASE_URL}/models/${encodeURIComponent(model)}:${method}key=${encodeURIComponent(this.config.apiKey)}`;
+    const response = await fetch(url, {
+      method: 'POST',
+      headers: { 'Content-Type': 'application/json' },
+      body: JSON.stringify(requestBody),
+      signal
+    });
+
+    if (!response.ok) {
+      const error = await response.json().catch(() => ({}));
+      throw new Error(error.error?.message || `Gemini API 호출 실패 (${response.status})`);
+    }
+
+    return response;
+  }
+
+  /**
+   * 응답(또는 스트리밍 조각)의 텍스트 추출
+   */
+  private extractText(data: { candidates?: Array<{ content?: { parts?: Array<{ text?: string }> } }> }): string {
+    const candidateParts = data.candidates?.[0]?.content?.parts || [];
+    return candidateParts.map(p => p.text || '').join('');
+  }
+}
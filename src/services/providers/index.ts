@@ -0,0 +1,40 @@
+/**
+ * LLM 제공자 모듈
+ * 설정에 따라 OpenAI / Gemini / Anthropic / 로컬 모델 제공자를 생성
+ */
+
+import type { ExtensionSettings } from '../settings';
+import type { LLMProvider } from './types';
+import { OpenAIProvider, LocalProvider } from './openai';
+import { GeminiProvider } from './gemini';
+import { AnthropicProvider } from './anthropic';
+
+export type { ProviderId, ChatMessage, ChatOptions, VisionImage, LLMProvider, ProviderConfig } from './types';
+export { MAX_VISION_IMAGES } from './types';
+export { OpenAIProvider, LocalProvider, GeminiProvider, AnthropicProvider };
+
+/**
+ * 설정으로부터 제공자 생성
+ * @param apiKey 선택된 제공자의 API 키 (로컬 모델은 빈 문자열 가능)
+ */
+export function createProvider(settings: ExtensionSettings, apiKey: string): LLMProvider {
+  switch (settings.provider) {
+    case 'gemini':
+      return new GeminiProvider({ apiKey, model: settings.geminiModel });
+    case 'anthropic':
+      return new AnthropicProvider({ apiKey, model: settings.anthropicModel });
+    case 'local':
+      return new LocalProvider({
+        apiKey,
+        model: settings.localModel,
+        baseUrl: settings.localEndpoint
+      });
+    case 'openai':
+    default:
+      return new OpenAIProvider({
+        apiKey,
+        model: settings.chatModel,
+        visionModel: settings.visionModel
+      });
+  }
+}
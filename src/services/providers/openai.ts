@@ -0,0 +1,171 @@
+import type { ChatMessage, ChatOptions, LLMProvider, ProviderConfig, ProviderId, VisionImage } from './types';
+import { JSON_ONLY_INSTRUCTION, MAX_VISION_IMAGES } from './types';
+import { readServerSentEvents } from './sse';
+
+const OPENAI_BASE_URL = 'https://api.openai.com/v1';
+
+/**
+ * JSON 응답 모드를 지원하지 않는 서버용: 시스템 메시지에 JSON 출력 지시 추가 (시스템 메시지가 없으면 새로 추가)
+ */
+function withJsonInstruction(messages: ChatMessage[]): ChatMessage[] {
+  const index = messages.findIndex(m => m.role === 'system');
+  if (index === -1) {
+    return [{ role: 'system', content: JSON_ONLY_INSTRUCTION.trim() }, ...messages];
+  }
+  return messages.map((m, i) => i === index ? { ...m, content: m.content + JSON_ONLY_INSTRUCTION } : m);
+}
+
+/**
+ * OpenAI Chat Completions 제공자
+ * - gpt-4o: 고품질 분석, 복잡한 추론 (비용 높음)
+ * - gpt-4o-mini: 빠른 응답, 일반적인 분석 (비용 효율적)
+ */
+export class OpenAIProvider implements LLMProvider {
+  readonly id: ProviderId = 'openai';
+  readonly name: string = 'OpenAI';
+  readonly supportsVision: boolean = true;
+  readonly supportsJsonMode: boolean = true;
+  readonly maxContextTokens: number = 128000;
+  readonly maxOutputTokens: number = 16384;
+
+  protected readonly config: ProviderConfig;
+
+  constructor(config: ProviderConfig) {
+    this.config = config;
+  }
+
+  /**
+   * Chat Completions 엔드포인트
+   */
+  protected get endpoint(): string {
+    const baseUrl = (this.config.baseUrl || OPENAI_BASE_URL).replace(/\/+$/, '');
+    return `${baseUrl}/chat/completions`;
+  }
+
+  protected get headers(): Record<string, string> {
+    const headers: Record<string, string> = { 'Content-Type': 'application/json' };
+    if (this.config.apiKey) {
+      headers['Authorization'] = `Bearer ${this.config.apiKey}`;
+    }
+    return headers;
+  }
+
+  async chat(messages: ChatMessage[], options: ChatOptions = {}): Promise<string> {
+    const {
+      temperature = 0.3, // 분석 작업에는 낮은 temperature가 더 일관된 결과
+      maxTokens = 2000,
+      responseFormat = 'text'
+    } = options;
+
+    const requestBody: Record<string, unknown> = {
+      model: options.model || this.config.model,
+      messages: responseFormat === 'json_object' && !this.supportsJsonMode ? withJsonInstruction(messages) : messages,
+      temperature,
+      max_tokens: Math.min(maxTokens, this.maxOutputTokens)
+    };
+
+    // JSON 응답 형식 요청
+    if (responseFormat === 'json_object' && this.supportsJsonMode) {
+      requestBody.response_format = { type: 'json_object' };
+    }
+
+    const data = await (await this.fetchCompletion(requestBody, options.signal)).json();
+    return data.choices?.[0]?.message?.content || '';
+  }
+
+  async *chatStream(messages: ChatMessage[], options: ChatOptions = {}): AsyncGenerator<string> {
+    const { temperature = 0.3, maxTokens = 2000 } = options;
+
+    const response = await this.fetchCompletion({
+      model: options.model || this.config.model,
+      messages,
+      temperature,
+      max_tokens: Math.min(maxTokens, this.maxOutputTokens),
+      stream: true
+    }, options.signal);
+
+    for await (const data of readServerSentEvents(response)) {
+      if (data === '[DONE]') break;
+      try {
+        const delta = JSON.parse(data).choices?.[0]?.delta?.content;
+        if (delta) yield delta;
+      } catch {
+        // keep-alive 등 JSON이 아닌 이벤트 무시
+      }
+    }
+  }
+
+  async vision(
+    systemPrompt: string,
+    userPrompt: string,
+    images: VisionImage[],
+    options: ChatOptions = {}
+  ): Promise<string> {
+    const { temperature = 0.2, maxTokens = 4000 } = options;
+
+    // 이미지를 포함한 content 구성
+    const userContent: Array<{ type: string; text?: string; image_url?: { url: string; detail?: string } }> = [
+      { type: 'text', text: userPrompt }
+    ];
+
+    images.slice(0, MAX_VISION_IMAGES).forEach(img => {
+      userContent.push({
+        type: 'image_url',
+        image_url: {
+          url: `data:image/jpeg;base64,${img.base64}`,
+          detail: 'low' // 비용 절감을 위해 low detail 사용
+        }
+      });
+    });
+
+    const requestBody: Record<string, unknown> = {
+      model: options.model || this.config.visionModel || this.config.model,
+      messages: [
+        { role: 'system', content: this.supportsJsonMode ? systemPrompt : systemPrompt + JSON_ONLY_INSTRUCTION },
+        { role: 'user', content: userContent }
+      ],
+      temperature,
+      max_tokens: Math.min(maxTokens, this.maxOutputTokens)
+    };
+
+    if (this.supportsJsonMode) {
+      requestBody.response_format = { type: 'json_object' };
+    }
+
+    const data = await (await this.fetchCompletion(requestBody, options.signal)).json();
+    return data.choices?.[0]?.message?.content || '';
+  }
+
+  /**
+   * API 호출 (실패 시 에러)
+   */
+  protected async fetchCompletion(requestBody: Record<string, unknown>, signal?: AbortSignal): Promise<Response> {
+    const response = await fetch(this.endpoint, {
+      method: 'POST',
+      headers: this.headers,
+      body: JSON.stringify(requestBody),
+      signal
+    });
+
+    if (!response.ok) {
+      const error = await response.json().catch(() => ({}));
+      throw new Error(error.error?.message || `${this.name} API 호출 실패 (${response.status})`);
+    }
+
+    return response;
+  }
+}
+
+/**
+ * 로컬 모델 제공자 (Ollama, llama.cpp server 등 OpenAI 호환 엔드포인트)
+ * 예: http://localhost:11434/v1 (Ollama), http://localhost:8080/v1 (llama.cpp)
+ * 기본 모델(llama3.1)은 텍스트 전용이고, 서버마다 response_format 지원이 달라 JSON은 프롬프트로 요청
+ */
+export class LocalProvider extends OpenAIProvider {
+  readonly id: ProviderId = 'local';
+  readonly name: string = '로컬 모델';
+  readonly supportsVision: boolean = false;
+  readonly supportsJsonMode: boolean = false;
+  readonly maxContextTokens: number = 8192;
+  readonly maxOutputTokens: number = 4096;
+}
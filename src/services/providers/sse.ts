@@ -0,0 +1,51 @@
+/**
+ * 이벤트 한 개의 data 줄을 합침
+ */
+function parseEventData(rawEvent: string): string {
+  return rawEvent
+    .split(/\r?\n/)
+    .filter(line => line.startsWith('data:'))
+    .map(line => line.substring(5).trimStart())
+    .join('\n');
+}
+
+/**
+ * Server-Sent Events 응답 읽기
+ * 스트리밍 API(OpenAI, Anthropic, Gemini)의 "data: ..." 줄을 이벤트 단위로 반환
+ */
+export async function* readServerSentEvents(response: Response): AsyncGenerator<string> {
+  if (!response.body) {
+    throw new Error('스트리밍 응답 본문이 없습니다');
+  }
+
+  const reader = response.body.getReader();
+  const decoder = new TextDecoder();
+  let buffer = '';
+
+  try {
+    while (true) {
+      const { done, value } = await reader.read();
+      if (done) break;
+
+      buffer += decoder.decode(value, { stream: true });
+
+      // 이벤트는 빈 줄로 구분
+      let boundary = buffer.search(/\r?\n\r?\n/);
+      while (boundary !== -1) {
+        const rawEvent = buffer.substring(0, boundary);
+        buffer = buffer.substring(boundary).replace(/^\r?\n\r?\n/, '');
+
+        const data = parseEventData(rawEvent);
+        if (data) yield data;
+
+        boundary = buffer.search(/\r?\n\r?\n/);
+      }
+    }
+
+    // 마지막 이벤트 (빈 줄 없이 끝난 경우)
+    const rest = parseEventData(buffer);
+    if (rest) yield rest;
+  } finally {
+    reader.releaseLock();
+  }
+}
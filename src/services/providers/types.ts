@@ -0,0 +1,63 @@
+/**
+ * LLM 제공자 공통 타입
+ * OpenAI, Gemini, Anthropic, 로컬 모델(OpenAI 호환)을 같은 방식으로 호출하기 위한 인터페이스
+ */
+
+export type ProviderId = 'openai' | 'gemini' | 'anthropic' | 'local';
+
+export interface ChatMessage {
+  role: 'user' | 'assistant' | 'system';
+  content: string;
+}
+
+// 텍스트 호출 옵션
+export interface ChatOptions {
+  model?: string;
+  temperature?: number;
+  maxTokens?: number;
+  responseFormat?: 'text' | 'json_object';
+  signal?: AbortSignal; // 요청 중단용
+}
+
+// Vision 호출에 전달하는 이미지
+export interface VisionImage {
+  base64: string;       // JPEG base64 (data URL 접두사 없음)
+  timestamp: number;    // 초 단위
+}
+
+export interface LLMProvider {
+  readonly id: ProviderId;
+  readonly name: string;              // 화면 표시용 이름
+  readonly supportsVision: boolean;
+  readonly supportsJsonMode: boolean; // 네이티브 JSON 응답 모드 지원 여부 (미지원 시 프롬프트로 요청)
+  readonly maxContextTokens: number;  // 입력 컨텍스트 한도
+  readonly maxOutputTokens: number;   // 출력 토큰 한도
+
+  /** 대화형 텍스트 생성 */
+  chat(messages: ChatMessage[], options?: ChatOptions): Promise<string>;
+
+  /** 대화형 텍스트 생성 (스트리밍, 생성되는 텍스트 조각을 차례로 반환) */
+  chatStream(messages: ChatMessage[], options?: ChatOptions): AsyncGenerator<string>;
+
+  /** 이미지 + 텍스트 분석 (JSON 응답) */
+  vision(
+    systemPrompt: string,
+    userPrompt: string,
+    images: VisionImage[],
+    options?: ChatOptions
+  ): Promise<string>;
+}
+
+// 제공자 생성에 필요한 설정
+export interface ProviderConfig {
+  apiKey: string;
+  model: string;          // 텍스트 모델
+  visionModel?: string;   // Vision 모델 (생략 시 텍스트 모델 사용)
+  baseUrl?: string;       // OpenAI 호환 엔드포인트 (로컬 모델용)
+}
+
+// 한 번에 전송하는 최대 이미지 수
+export const MAX_VISION_IMAGES = 10;
+
+// JSON 모드를 지원하지 않는 제공자용 지시문
+export const JSON_ONLY_INSTRUCTION = '\n\n반드시 다른 설명 없이 유효한 JSON 객체 하나만 출력하세요.';
@@ -0,0 +1,84 @@
+/**
+ * 확장 프로그램 설정 모듈
+ * API 키, 백엔드 URL, 모델 선택을 chrome.storage.local에 저장
+ */
+
+import type { ProviderId } from './providers/types';
+
+const SETTINGS_STORAGE_KEY = 'settings';
+
+// 제공자 표시 이름
+export const PROVIDER_LABELS: Record<ProviderId, string> = {
+  openai: 'OpenAI',
+  gemini: 'Gemini',
+  anthropic: 'Anthropic',
+  local: '로컬 모델 (Ollama / llama.cpp)'
+};
+
+// 선택 가능한 모델
+export const CHAT_MODELS = ['gpt-4o-mini', 'gpt-4o', 'gpt-4.1-mini', 'gpt-4.1'] as const;
+export const VISION_MODELS = ['gpt-4o', 'gpt-4o-mini', 'gpt-4.1'] as const;
+export const GEMINI_MODELS = ['gemini-2.5-flash', 'gemini-2.5-pro', 'gemini-2.0-flash'] as const;
+export const ANTHROPIC_MODELS = ['claude-sonnet-4-5', 'claude-haiku-4-5', 'claude-opus-4-1'] as const;
+
+export interface ExtensionSettings {
+  provider: ProviderId;    // 자막/사진 분석 및 채팅에 사용할 제공자
+  openaiApiKey: string;
+  geminiApiKey: string;
+  anthropicApiKey: string;
+  backendApiUrl: string;   // 비어 있으면 빌드 기본값 사용
+  chatModel: string;       // OpenAI 텍스트 분석/채팅 모델
+  visionModel: string;     // OpenAI 사진(프레임) 분석 모델
+  geminiModel: string;
+  anthropicModel: string;
+  localEndpoint: string;   // OpenAI 호환 엔드포인트 (예: http://localhost:11434/v1)
+  localModel: string;
+}
+
+export const DEFAULT_SETTINGS: ExtensionSettings = {
+  provider: 'openai',
+  openaiApiKey: '',
+  geminiApiKey: '',
+  anthropicApiKey: '',
+  backendApiUrl: '',
+  chatModel: 'gpt-4o-mini',
+  visionModel: 'gpt-4o',
+  geminiModel: 'gemini-2.5-flash',
+  anthropicModel: 'claude-sonnet-4-5',
+  localEndpoint: 'http://localhost:11434/v1',
+  localModel: 'llama3.1'
+};
+
+/**
+ * 저장된 설정 불러오기 (없는 항목은 기본값)
+ */
+export async function loadSettings(): Promise<ExtensionSettings> {
+  try {
+    const stored = await chrome.storage.local.get(SETTINGS_STORAGE_KEY);
+    return { ...DEFAULT_SETTINGS, ...(stored[SETTINGS_STORAGE_KEY] as Partial<ExtensionSettings> | undefined) };
+  } catch {
+    // chrome.storage를 사용할 수 없는 환경 (개발 서버 등)
+    return { ...DEFAULT_SETTINGS };
+  }
+}
+
+/**
+ * 설정 저장 (일부 항목만 전달 가능)
+ */
+export async function saveSettings(partial: Partial<ExtensionSettings>): Promise<ExtensionSettings> {
+  const next = { ...(await loadSettings()), ...partial };
+  await chrome.storage.local.set({ [SETTINGS_STORAGE_KEY]: next });
+  return next;
+}
+
+/**
+ * 설정 변경 구독 (반환된 함수로 구독 해제)
+ */
+export function onSettingsChanged(callback: (settings: ExtensionSettings) => void): () => void {
+  const listener = (changes: Record<string, chrome.storage.StorageChange>, areaName: string) => {
+    if (areaName !== 'local' || !changes[SETTINGS_STORAGE_KEY]) return;
+    callback({ ...DEFAULT_SETTINGS, ...(changes[SETTINGS_STORAGE_KEY].newValue as Partial<ExtensionSettings> | undefined) });
+  };
+  chrome.storage.onChanged.addListener(listener);
+  return () => chrome.storage.onChanged.removeListener(listener);
+}
@@ -0,0 +1,144 @@
+/**
+ * 자막 파일 파서 (WebVTT, SRT, TTML)
+ * 큐 설정, 여러 줄 큐, HTML/스타일 태그를 정리해 { start, text } 세그먼트로 변환
+ */
+
+import type { TranscriptSegment } from './openai';
+import { formatSeconds } from './chunking';
+import { findDescendants, getTextContent, parseXml } from './xml';
+
+// "00:01:02.500 --> 00:01:05.000 align:start" (SRT는 쉼표 소수점, 시간 생략 가능)
+const CUE_TIMING_PATTERN = /^\s*((?:\d+:)?\d{1,2}:\d{2}[.,]\d{1,3})\s*-->\s*((?:\d+:)?\d{1,2}:\d{2}[.,]\d{1,3})/;
+
+/**
+ * 큐 시각 문자열을 초 단위로 변환
+ */
+function parseCueTime(value: string): number {
+  const [clock, fraction = '0'] = value.replace(',', '.').split('.');
+  const seconds = clock.split(':').map(Number).reduce((total, part) => total * 60 + part, 0);
+  return seconds + Number(`0.${fraction}`);
+}
+
+/**
+ * 큐 텍스트 정리: 태그(<v 화자>, <c.class>, <b>, 큐 내부 타임스탬프), SRT 스타일 코드({\an8}), HTML 엔티티
+ */
+export function cleanCueText(text: string): string {
+  return text
+    .replace(/<[^>]*>/g, '')
+    .replace(/\{\\[^}]*\}/g, '')
+    .replace(/&nbsp;/g, ' ')
+    .replace(/&lrm;|&rlm;/g, '')
+    .replace(/&lt;/g, '<')
+    .replace(/&gt;/g, '>')
+    .replace(/&quot;/g, '"')
+    .replace(/&#39;/g, "'")
+    .replace(/&#(\d+);/g, (_, code) => String.fromCharCode(parseInt(code)))
+    .replace(/&amp;/g, '&')
+    .replace(/\s+/g, ' ')
+    .trim();
+}
+
+/**
+ * TTML 시각 표현을 초 단위로 변환
+ * 시계 형식(00:01:02.500, 프레임 포함 00:01:02:12)과 오프셋 형식(62.5s, 500ms, 1200t)
+ */
+function parseTTMLTime(value: string, frameRate: number, tickRate: number): number | null {
+  const clock = value.match(/^(\d+):(\d{2}):(\d{2})(?:\.(\d+)|:(\d+))?$/);
+  if (clock) {
+    const [, hours, minutes, seconds, fraction, frames] = clock;
+    return Number(hours) * 3600 + Number(minutes) * 60 + Number(seconds)
+      + (fraction ? Number(`0.${fraction}`) : 0)
+      + (frames ? Number(frames) / frameRate : 0);
+  }
+
+  const offset = value.match(/^(\d+(?:\.\d+)?)(h|m|s|ms|f|t)$/);
+  if (!offset) return null;
+  const amount = Number(offset[1]);
+  switch (offset[2]) {
+    case 'h': return amount * 3600;
+    case 'm': return amount * 60;
+    case 'ms': return amount / 1000;
+    case 'f': return amount / frameRate;
+    case 't': return amount / tickRate;
+    default: return amount;
+  }
+}
+
+/**
+ * TTML(DFXP) 자막 파싱 (<p begin="..."> 문단 단위)
+ */
+export function parseTTML(content: string): TranscriptSegment[] {
+  const root = parseXml(content);
+  const frameRate = Number(root.attributes.frameRate) || 30;
+  const tickRate = Number(root.attributes.tickRate) || frameRate;
+
+  const cues: TranscriptSegment[] = [];
+  for (const paragraph of findDescendants(root, 'p')) {
+    const begin = paragraph.attributes.begin ? parseTTMLTime(paragraph.attributes.begin.trim(), frameRate, tickRate) : null;
+    if (begin === null) continue;
+    cues.push({ start: begin, text: getTextContent(paragraph) });
+  }
+
+  return normalizeCues(cues);
+}
+
+/**
+ * WebVTT / SRT / TTML 자막 파싱 (형식은 내용으로 판별)
+ */
+export function parseSubtitles(content: string): TranscriptSegment[] {
+  if (/^\uFEFF?\s*</.test(content) && /<(\w+:)?tt[\s>]/.test(content)) {
+    return parseTTML(content);
+  }
+
+  const isVTT = /^\uFEFF?WEBVTT/.test(content);
+  const blocks = content
+    .replace(/^\uFEFF/, '')
+    .replace(/\r\n?/g, '\n')
+    .split(/\n{2,}/);
+
+  const cues: TranscriptSegment[] = [];
+
+  for (const block of blocks) {
+    const lines = block.split('\n').filter(line => line.trim() !== '');
+    if (lines.length === 0) continue;
+
+    // WebVTT 헤더와 NOTE / STYLE / REGION 블록 제외
+    if (isVTT && /^(WEBVTT|NOTE|STYLE|REGION)\b/.test(lines[0])) continue;
+
+    // 타이밍 줄 찾기 (앞에 큐 ID 또는 SRT 번호가 올 수 있음)
+    const timingIndex = lines.findIndex(line => CUE_TIMING_PATTERN.test(line));
+    if (timingIndex === -1) continue;
+
+    const match = lines[timingIndex].match(CUE_TIMING_PATTERN)!;
+    cues.push({ start: parseCueTime(match[1]), text: lines.slice(timingIndex + 1).join(' ') });
+  }
+
+  return normalizeCues(cues);
+}
+
+/**
+ * 큐 목록 정리 (텍스트 정리, 빈 큐 제외, 시간순 정렬)
+ * 같은 문장이 이어지는 롤링 자막은 한 번만 남김
+ */
+export function normalizeCues(cues: TranscriptSegment[]): TranscriptSegment[] {
+  const segments: TranscriptSegment[] = [];
+
+  [...cues].sort((a, b) => a.start - b.start).forEach(cue => {
+    const text = cleanCueText(cue.text);
+    if (!text) return;
+
+    const previous = segments[segments.length - 1];
+    if (previous && previous.text === text) return;
+
+    segments.push({ start: cue.start, text });
+  });
+
+  return segments;
+}
+
+/**
+ * 세그먼트를 "[m:ss] 텍스트" 자막 텍스트로 변환
+ */
+export function segmentsToTranscript(segments: TranscriptSegment[]): string {
+  return segments.map(s => `[${formatSeconds(s.start)}] ${s.text}`).join('\n');
+}
@@ -0,0 +1,116 @@
+/**
+ * 최소 XML 파서
+ * Service Worker에는 DOMParser가 없으므로 DASH MPD, TTML 자막 파싱에 사용
+ * (요소, 속성, 텍스트만 지원 - DTD/처리 명령/주석은 무시, 이름공간 접두사는 제거)
+ */
+
+export interface XmlElement {
+  name: string;                         // 접두사를 뺀 로컬 이름
+  attributes: Record<string, string>;   // 접두사를 뺀 로컬 이름
+  children: XmlNode[];
+}
+
+export type XmlNode = XmlElement | string;
+
+const ENTITIES: Record<string, string> = {
+  amp: '&',
+  lt: '<',
+  gt: '>',
+  quot: '"',
+  apos: "'",
+  nbsp: ' '
+};
+
+function decodeEntities(text: string): string {
+  return text.replace(/&(#x[0-9a-f]+|#\d+|\w+);/gi, (match, entity: string) => {
+    if (entity[0] === '#') {
+      const code = entity[1] === 'x' || entity[1] === 'X' ? parseInt(entity.slice(2), 16) : parseInt(entity.slice(1), 10);
+      return isNaN(code) ? match : String.fromCodePoint(code);
+    }
+    return ENTITIES[entity] ?? match;
+  });
+}
+
+function localName(name: string): string {
+  const colon = name.indexOf(':');
+  return colon === -1 ? name : name.slice(colon + 1);
+}
+
+/**
+ * XML 문자열을 요소 트리로 변환 (최상위 요소 반환)
+ */
+export function parseXml(text: string): XmlElement {
+  const root: XmlElement = { name: '#document', attributes: {}, children: [] };
+  const stack: XmlElement[] = [root];
+  const tagPattern = /<!\[CDATA\[([\s\S]*?)\]\]>|<!--[\s\S]*?-->|<[?!][\s\S]*?>|<\/\s*([^\s>]+)\s*>|<([^\s/>]+)((?:\s+[^\s=/>]+\s*=\s*(?:"[^"]*"|'[^']*'))*)\s*(\/?)>/g;
+  const attributePattern = /([^\s=]+)\s*=\s*(?:"([^"]*)"|'([^']*)')/g;
+
+  let lastIndex = 0;
+  let match: RegExpExecArray | null;
+
+  while ((match = tagPattern.exec(text)) !== null) {
+    const current = stack[stack.length - 1];
+    if (match.index > lastIndex) {
+      current.children.push(decodeEntities(text.slice(lastIndex, match.index)));
+    }
+    lastIndex = tagPattern.lastIndex;
+
+    const [, cdata, closingName, openingName, rawAttributes, selfClosing] = match;
+    if (cdata !== undefined) {
+      current.children.push(cdata);
+    } else if (closingName) {
+      // 짝이 맞는 여는 태그까지 닫기 (잘못된 중첩은 관대하게 처리)
+      const name = localName(closingName);
+      const openIndex = stack.map(el => el.name).lastIndexOf(name);
+      if (openIndex > 0) stack.length = openIndex;
+    } else if (openingName) {
+      const element: XmlElement = { name: localName(openingName), attributes: {}, children: [] };
+      let attribute: RegExpExecArray | null;
+      attributePattern.lastIndex = 0;
+      while ((attribute = attributePattern.exec(rawAttributes || '')) !== null) {
+        element.attributes[localName(attribute[1])] = decodeEntities(attribute[2] ?? attribute[3] ?? '');
+      }
+      current.children.push(element);
+      if (!selfClosing) stack.push(element);
+    }
+  }
+
+  const rootElement = root.children.find((node): node is XmlElement => typeof node !== 'string');
+  if (!rootElement) {
+    throw new Error('XML 형식이 아닙니다');
+  }
+  return rootElement;
+}
+
+/**
+ * 이름이 같은 자식 요소
+ */
+export function getChildren(element: XmlElement, name: string): XmlElement[] {
+  return element.children.filter((node): node is XmlElement => typeof node !== 'string' && node.name === name);
+}
+
+export function getChild(element: XmlElement, name: string): XmlElement | undefined {
+  return getChildren(element, name)[0];
+}
+
+/**
+ * 이름이 같은 모든 하위 요소 (문서 순서)
+ */
+export function findDescendants(element: XmlElement, name: string): XmlElement[] {
+  const found: XmlElement[] = [];
+  for (const node of element.children) {
+    if (typeof node === 'string') continue;
+    if (node.name === name) found.push(node);
+    found.push(...findDescendants(node, name));
+  }
+  return found;
+}
+
+/**
+ * 요소 안의 텍스트 (br은 줄바꿈)
+ */
+export function getTextContent(element: XmlElement): string {
+  return element.children
+    .map(node => (typeof node === 'string' ? node : node.name === 'br' ? '\n' : getTextContent(node)))
+    .join('');
+}
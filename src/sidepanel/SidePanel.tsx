@@ -1,18 +1,35 @@
 import { useState, useEffect, useRef, useCallback } from 'react';
-import type { VideoAnalysis, ChatMessage } from '../services/openai';
+import type { VideoAnalysis, ChatMessage, TableOfContentsItem } from '../services/openai';
 import { 
-  getApiKey, 
-  getGeminiApiKey,
+  getProvider, 
   hasGeminiKey,
-  analyzeVideo, 
-  analyzeVideoWithGemini,
-  step3_chatWithVideo,
-  getYouTubeTranscript,
-  type VideoTranscript 
+  step3_chatWithVideoStream
 } from '../services/openai';
-import type { VideoInfo, DetectedStream } from '../types';
-
-type Tab = 'list' | 'summary' | 'toc' | 'chat';
+import { runAnalysis } from '../services/analysis';
+import {
+  getLibraryKey,
+  getAnalysis,
+  saveAnalysis,
+  listAnalyses,
+  updateChatHistory,
+  deleteAnalysis,
+  type LibraryEntry
+} from '../services/library';
+import { exportAnalysis, EXPORT_FORMAT_LABELS, type ExportFormat } from '../services/exporter';
+import { baseLanguage, buildCaptionOptions, getLanguageName, getPreferredLanguage } from '../services/captions';
+import { loadSettings, onSettingsChanged, PROVIDER_LABELS } from '../services/settings';
+import { formatSeconds } from '../services/chunking';
+import { sendToPage } from '../services/pageMessaging';
+import type { VideoInfo, DetectedStream, Message, CaptionTrack, VideoPlatform, AnalysisMode } from '../types';
+
+type Tab = 'list' | 'summary' | 'toc' | 'chat' | 'history';
+
+// 기록 목록에 표시할 분석 방식 이름
+const ANALYSIS_MODE_LABELS: Record<AnalysisMode, string> = {
+  transcript: '자막 분석',
+  gemini: 'Gemini 분석',
+  multimodal: '화면 + 자막 분석'
+};
 
 // 비디오 미리보기 컴포넌트
 interface VideoPreviewProps {
@@ -116,6 +133,12 @@ function VideoPreview({ videoUrl, thumbnailUrl, platform, isHovering }: VideoPre
     switch (platform) {
       case 'youtube': return '🔴';
       case 'vimeo': return '🔵';
+      case 'twitch': return '🟣';
+      case 'dailymotion': return '🔷';
+      case 'wistia': return '🟦';
+      case 'loom': return '🟪';
+      case 'ted': return '🎤';
+      case 'coursera': return '🎓';
       case 'html5': return '🎥';
       case 'stream': return '📡';
       default: return '🎬';
@@ -194,6 +217,42 @@ interface DetectedVideo {
   videoId?: string;
   thumbnailUrl?: string;
   quality?: string;
+  author?: string;       // 업로더/채널 이름
+  description?: string;  // 페이지 구조화 데이터의 설명 (분석 프롬프트에 참고용으로 전달)
+  tabId?: number;        // 비디오가 있는 탭 (재생 위치 수신 대상)
+  frameId?: number;      // 비디오가 있는 프레임 (자막/이동 요청 대상)
+  elementPath?: string[]; // 프레임 안의 비디오 요소 경로 (shadow DOM 포함)
+  subtitle?: { url: string; language?: string }; // 스트림 자막 파일 (DASH WebVTT/TTML)
+}
+
+/**
+ * 스트림 화질 표시 (대표 화질 + 화질/오디오/자막 트랙 수)
+ */
+function formatStreamQuality(stream: DetectedStream): string | undefined {
+  const subtitleCount = stream.renditions?.filter(r => r.type === 'subtitles').length || 0;
+  const audioCount = stream.renditions?.filter(r => r.type === 'audio').length || 0;
+  const parts = [
+    stream.quality,
+    stream.variants && stream.variants.length > 1 ? `화질 ${stream.variants.length}개` : undefined,
+    audioCount > 1 ? `오디오 ${audioCount}개` : undefined,
+    subtitleCount > 0 ? `자막 ${subtitleCount}개` : undefined
+  ].filter(Boolean);
+  return parts.length > 0 ? parts.join(' · ') : undefined;
+}
+
+/**
+ * 분석에 쓸 스트림 자막 파일 (사용자 언어 → 기본 트랙 → 첫 트랙)
+ * HLS 자막 플레이리스트처럼 파일 하나가 아닌 트랙은 제외
+ */
+function selectStreamSubtitle(stream: DetectedStream): DetectedVideo['subtitle'] {
+  const files = (stream.renditions || []).filter(
+    r => r.type === 'subtitles' && r.url && !/\.m3u8(?:\?|$|#)/i.test(r.url)
+  );
+  const preferred = getPreferredLanguage();
+  const rendition = files.find(r => r.language && baseLanguage(r.language) === preferred)
+    || files.find(r => r.isDefault)
+    || files[0];
+  return rendition?.url ? { url: rendition.url, language: rendition.language } : undefined;
 }
 
 // 채팅 메시지 포맷팅 컴포넌트
@@ -319,6 +378,40 @@ function FormattedMessage({ content }: { content: string }) {
   return <div className="sp-formatted-message">{formatText(content)}</div>;
 }
 
+// 페이지 비디오의 재생 위치
+interface PlaybackState {
+  time: number;
+  duration?: number;
+}
+
+/**
+ * 현재 재생 위치가 속한 목차 섹션 찾기 (타임스탬프가 없으면 -1)
+ */
+function findCurrentSection(toc: TableOfContentsItem[], time: number): number {
+  let current = -1;
+  toc.forEach((item, i) => {
+    if (item.timestampSeconds !== undefined && item.timestampSeconds <= time) {
+      if (current === -1 || item.timestampSeconds >= toc[current].timestampSeconds!) {
+        current = i;
+      }
+    }
+  });
+  return current;
+}
+
+/**
+ * 섹션 내 진행률 (0~1, 섹션의 끝은 다음 섹션의 시작 또는 비디오 끝)
+ */
+function getSectionProgress(toc: TableOfContentsItem[], index: number, time: number, duration?: number): number {
+  const start = toc[index].timestampSeconds ?? 0;
+  const nextStarts = toc
+    .map(item => item.timestampSeconds)
+    .filter((t): t is number => t !== undefined && t > start);
+  const end = nextStarts.length > 0 ? Math.min(...nextStarts) : duration;
+  if (!end || end <= start) return 0;
+  return Math.min(1, Math.max(0, (time - start) / (end - start)));
+}
+
 interface AnalysisState {
   isLoading: boolean;
   progress: string;
@@ -349,10 +442,37 @@ function SidePanel() {
   const [inputMessage, setInputMessage] = useState('');
   const [isChatLoading, setIsChatLoading] = useState(false);
   const chatEndRef = useRef<HTMLDivElement>(null);
+  // 스트리밍 중인 답변 중단용
+  const chatAbortRef = useRef<AbortController | null>(null);
   
   // 목차 펼침 상태
   const [expandedTocItems, setExpandedTocItems] = useState<Set<number>>(new Set());
+  const tocItemRefs = useRef<Array<HTMLLIElement | null>>([]);
+
+  // 페이지 비디오 재생 위치 (Content Script에서 보고)
+  const [playback, setPlayback] = useState<PlaybackState | null>(null);
+
+  // 분석 기록 (현재 결과의 저장 키, 기록 탭 목록/검색어)
+  const [libraryKey, setLibraryKey] = useState<string | null>(null);
+  const [historyEntries, setHistoryEntries] = useState<LibraryEntry[]>([]);
+  const [historyQuery, setHistoryQuery] = useState('');
+
+  // YouTube 자막 트랙 목록과 선택 (빈 값 = 자동)
+  const [captionTracks, setCaptionTracks] = useState<CaptionTrack[]>([]);
+  const [captionChoice, setCaptionChoice] = useState('');
+
+  // 시청하며 캡처 중인 비디오 (getLibraryKey 값)
+  const [watchCaptureKey, setWatchCaptureKey] = useState<string | null>(null);
+
+  // 내보내기 메뉴
+  const [isExportMenuOpen, setIsExportMenuOpen] = useState(false);
+  const [exportingFormat, setExportingFormat] = useState<ExportFormat | null>(null);
   
+  // Gemini 분석 사용 가능 여부 (설정 페이지에서 키 입력 시 갱신)
+  const [geminiAvailable, setGeminiAvailable] = useState(false);
+  // 자막 기반 분석/채팅에 사용할 제공자 이름
+  const [providerLabel, setProviderLabel] = useState(PROVIDER_LABELS.openai);
+
   // 호버 중인 비디오 인덱스
   const [hoveringVideoIndex, setHoveringVideoIndex] = useState<number | null>(null);
   const hoverTimeoutRef = useRef<ReturnType<typeof setTimeout> | null>(null);
@@ -385,9 +505,10 @@ function SidePanel() {
         // 페이지 제목 가져오기
         const pageTitle = tab.title || '비디오';
 
-        // Content Script에서 비디오 정보 가져오기
-        const videoResponse = await chrome.tabs.sendMessage(tab.id, {
-          type: 'GET_VIDEO_INFO'
+        // Background에서 모든 프레임의 비디오 목록 가져오기
+        const videoResponse = await chrome.runtime.sendMessage({
+          type: 'GET_TAB_VIDEOS',
+          tabId: tab.id
         }).catch(() => null);
 
         // Background에서 스트림 정보 가져오기
@@ -398,10 +519,9 @@ function SidePanel() {
 
         const videos: DetectedVideo[] = [];
 
-        // Content Script에서 감지된 비디오
+        // Content Script(각 프레임)에서 감지된 비디오
         if (videoResponse) {
-          // videos 배열 우선 사용 (모든 비디오 목록)
-          const videoList = videoResponse.videos || (videoResponse.payload ? [videoResponse.payload] : []);
+          const videoList = videoResponse.videos;
           
           if (Array.isArray(videoList)) {
             videoList.forEach((v: VideoInfo) => {
@@ -413,7 +533,12 @@ function SidePanel() {
                   sourceUrl: v.sourceUrl,  // 실제 비디오 파일 URL
                   platform: v.platform,
                   videoId: v.videoId,
-                  thumbnailUrl: v.thumbnailUrl
+                  thumbnailUrl: v.thumbnailUrl,
+                  author: v.author,
+                  description: v.description,
+                  tabId: tab.id,
+                  frameId: v.frameId,
+                  elementPath: v.elementPath
                 });
               }
             });
@@ -431,10 +556,13 @@ function SidePanel() {
                 : pageTitle;
               videos.push({
                 title: streamTitle,
+                duration: stream.duration,
                 size: stream.size,
                 url: stream.url,
                 platform: 'stream',
-                quality: stream.quality
+                tabId: tab.id,
+                quality: formatStreamQuality(stream),
+                subtitle: selectStreamSubtitle(stream)
               });
             }
           });
@@ -470,11 +598,112 @@ function SidePanel() {
     return () => clearInterval(interval);
   }, [selectedVideo, activeTab]);
 
+  // Gemini 키/제공자 확인 및 설정 변경 구독
+  useEffect(() => {
+    hasGeminiKey().then(setGeminiAvailable);
+    loadSettings().then(settings => setProviderLabel(PROVIDER_LABELS[settings.provider]));
+    return onSettingsChanged(settings => {
+      hasGeminiKey().then(setGeminiAvailable);
+      setProviderLabel(PROVIDER_LABELS[settings.provider]);
+    });
+  }, []);
+
+  // 선택한 비디오의 저장된 분석 결과 불러오기 (다시 분석하지 않고 재사용)
+  const selectedVideoKey = selectedVideo ? getLibraryKey(selectedVideo) : null;
+  useEffect(() => {
+    if (!selectedVideoKey) return;
+    let cancelled = false;
+
+    getAnalysis(selectedVideoKey)
+      .then(entry => {
+        if (cancelled || !entry) return;
+        console.log('[Video Summarizer] 저장된 분석 결과 사용:', entry.title);
+        setAnalysisState({
+          isLoading: false,
+          progress: '저장된 분석 결과',
+          step: 3,
+          analysis: entry.analysis,
+          error: null
+        });
+        setChatMessages(entry.chatMessages);
+        setLibraryKey(entry.key);
+      })
+      .catch(error => console.error('[Video Summarizer] 기록 불러오기 실패:', error));
+
+    return () => {
+      cancelled = true;
+    };
+  }, [selectedVideoKey]);
+
+  // 선택한 플랫폼 비디오(YouTube, Vimeo 등)의 자막 트랙 목록 가져오기
+  const selectedPlatform = selectedVideo?.platform;
+  const selectedVideoId = selectedVideo?.videoId;
+  const selectedFrameId = selectedVideo?.frameId;
+  useEffect(() => {
+    let cancelled = false;
+
+    const fetchCaptionTracks = async () => {
+      let tracks: CaptionTrack[] = [];
+      if (selectedPlatform && selectedVideoId) {
+        const response = await sendToPage<{ tracks?: CaptionTrack[] }>({
+          type: 'GET_CAPTION_TRACKS',
+          platform: selectedPlatform as VideoPlatform,
+          videoId: selectedVideoId
+        }, { frameId: selectedFrameId });
+        tracks = response?.tracks || [];
+      }
+      if (!cancelled) {
+        setCaptionTracks(tracks);
+        setCaptionChoice('');
+      }
+    };
+
+    fetchCaptionTracks();
+    return () => {
+      cancelled = true;
+    };
+  }, [selectedVideoKey, selectedPlatform, selectedVideoId, selectedFrameId]);
+
+  const captionOptions = buildCaptionOptions(captionTracks);
+
   // 채팅 스크롤
   useEffect(() => {
     chatEndRef.current?.scrollIntoView({ behavior: 'smooth' });
   }, [chatMessages]);
 
+  // 재생 위치 수신 (선택한 비디오가 있는 탭만, 프레임을 알면 해당 프레임만)
+  // 다른 비디오를 선택하면 이전 비디오의 재생 위치는 버림
+  const selectedTabId = selectedVideo?.tabId;
+  useEffect(() => {
+    setPlayback(null);
+    if (selectedTabId === undefined) return;
+
+    const listener = (message: Message, sender: chrome.runtime.MessageSender) => {
+      if (message.type !== 'VIDEO_TIME_UPDATE' || message.timeSeconds === undefined) return;
+      if (sender.tab?.id !== selectedTabId) return;
+      if (selectedFrameId !== undefined && sender.frameId !== selectedFrameId) return;
+      setPlayback({ time: message.timeSeconds, duration: message.duration });
+    };
+    chrome.runtime.onMessage.addListener(listener);
+    return () => chrome.runtime.onMessage.removeListener(listener);
+  }, [selectedVideoKey, selectedTabId, selectedFrameId]);
+
+  // 현재 재생 중인 목차 섹션
+  const currentSectionIndex = analysisState.analysis && playback
+    ? findCurrentSection(analysisState.analysis.tableOfContents, playback.time)
+    : -1;
+
+  // 목차 탭에서 재생 중인 섹션으로 자동 스크롤
+  useEffect(() => {
+    if (activeTab !== 'toc' || currentSectionIndex < 0) return;
+    tocItemRefs.current[currentSectionIndex]?.scrollIntoView({ behavior: 'smooth', block: 'nearest' });
+  }, [activeTab, currentSectionIndex]);
+
+  // 패널을 닫으면 진행 중인 답변 중단
+  useEffect(() => {
+    return () => chatAbortRef.current?.abort();
+  }, []);
+
   // 용량 포맷
   const formatSize = (bytes?: number): string => {
     if (!bytes) return '-';
@@ -501,6 +730,8 @@ function SidePanel() {
   const selectAndAnalyze = (video: DetectedVideo) => {
     setSelectedVideo(video);
     setActiveTab('summary');
+    // 같은 비디오를 다시 선택하면 현재 결과 유지
+    if (getLibraryKey(video) === selectedVideoKey) return;
     // 분석 상태 초기화
     setAnalysisState({
       isLoading: false,
@@ -509,11 +740,15 @@ function SidePanel() {
       analysis: null,
       error: null
     });
+    // 진행 중인 답변 중단 (참조를 비워 중단된 답변이 새 비디오의 채팅을 덮어쓰지 않도록)
+    chatAbortRef.current?.abort();
+    chatAbortRef.current = null;
     setChatMessages([]);
+    setLibraryKey(null);
   };
 
-  // 비디오 분석 시작 (useGemini: Gemini로 비디오 직접 분석)
-  const startAnalysis = async (useGemini: boolean = false) => {
+  // 비디오 분석 시작 (gemini: Gemini로 비디오 직접 분석, multimodal: 화면 캡처 + 자막 분석)
+  const startAnalysis = async (mode: AnalysisMode = 'transcript') => {
     if (!selectedVideo) {
       setAnalysisState(prev => ({ ...prev, error: '비디오를 선택해주세요.' }));
       return;
@@ -527,92 +762,29 @@ function SidePanel() {
       error: null
     });
 
-    try {
-      // Gemini 비디오 분석 (비디오 URL 직접 분석)
-      if (useGemini) {
-        const geminiKey = getGeminiApiKey();
-        if (!geminiKey) {
-          throw new Error('Gemini API 키가 설정되지 않았습니다. .env 파일에 GEMINI_API_KEY를 추가해주세요.');
-        }
+    let transcript: string | undefined;
 
-        // 자막도 함께 가져오기 시도 (참고용)
-        let transcriptText = '';
-        if (selectedVideo.platform === 'youtube' && selectedVideo.videoId) {
-          setAnalysisState(prev => ({ ...prev, progress: '자막을 가져오는 중...' }));
-          const transcriptData = await getYouTubeTranscript(selectedVideo.videoId);
-          if (transcriptData?.transcript) {
-            transcriptText = transcriptData.transcript;
-            console.log('[Video Summarizer] 자막 가져오기 성공:', transcriptText.length, '자');
-          }
-        }
-
-        const analysis = await analyzeVideoWithGemini(
-          selectedVideo.url,
-          selectedVideo.title,
-          transcriptText || undefined,
-          (step, message) => {
+    try {
+      const analysis = await runAnalysis(
+        selectedVideo,
+        mode,
+        {
+          onProgress: (step, message) => {
             setAnalysisState(prev => ({
               ...prev,
               step,
               progress: message
             }));
-          }
-        );
-
-        setAnalysisState({
-          isLoading: false,
-          progress: '완료!',
-          step: 3,
-          analysis,
-          error: null
-        });
-
-        setChatMessages([{
-          role: 'assistant',
-          content: `안녕하세요! "${analysis.title}" 콘텐츠를 Gemini AI로 분석했습니다. 궁금한 점이 있으시면 질문해주세요.`
-        }]);
-
-        return;
-      }
-
-      // 기존 자막 기반 분석 (OpenAI)
-      const apiKey = getApiKey();
-      if (!apiKey) {
-        setAnalysisState(prev => ({ ...prev, error: 'OpenAI API 키가 설정되지 않았습니다.' }));
-        return;
-      }
-
-      // 기존 자막 기반 분석
-      let transcriptText = '';
-      if (selectedVideo.platform === 'youtube' && selectedVideo.videoId) {
-        setAnalysisState(prev => ({ ...prev, progress: '자막을 가져오는 중...' }));
-        
-        const transcriptData = await getYouTubeTranscript(selectedVideo.videoId);
-        if (transcriptData?.transcript) {
-          transcriptText = transcriptData.transcript;
-          console.log('[Video Summarizer] 자막 가져오기 성공:', transcriptText.length, '자');
-        } else {
-          console.log('[Video Summarizer] 자막 없음, 제목 기반 분석 진행');
-        }
-      }
-
-      const transcript: VideoTranscript = {
-        videoId: selectedVideo.videoId || selectedVideo.url,
-        title: selectedVideo.title,
-        platform: selectedVideo.platform,
-        duration: selectedVideo.duration,
-        transcript: transcriptText || selectedVideo.title // 자막이 있으면 자막 사용, 없으면 제목
-      };
-
-      const analysis = await analyzeVideo(
-        apiKey,
-        transcript,
-        (step, message) => {
-          setAnalysisState(prev => ({
-            ...prev,
-            step,
-            progress: message
-          }));
+          },
+          onTranscript: (text) => {
+            transcript = text;
+          },
+          confirmSeekCapture: () => window.confirm(
+            '이 비디오는 재생을 방해하지 않고 화면을 캡처할 수 없습니다.\n' +
+            '비디오를 잠시 멈추고 재생 위치를 이동하며 캡처할까요? (캡처 후 원래 위치로 돌아갑니다)\n\n' +
+            '취소하면 "시청하며 캡처"를 켜고 비디오를 재생한 뒤 다시 분석할 수 있습니다.'
+          ),
+          caption: captionOptions.find(option => option.value === captionChoice)?.selection
         }
       );
 
@@ -624,10 +796,30 @@ function SidePanel() {
         error: null
       });
 
-      setChatMessages([{
+      const greeting: ChatMessage[] = [{
         role: 'assistant',
-        content: `안녕하세요! "${analysis.title}" 비디오에 대해 궁금한 점이 있으시면 질문해주세요.`
-      }]);
+        content: mode === 'gemini'
+          ? `안녕하세요! "${analysis.title}" 콘텐츠를 Gemini AI로 분석했습니다. 궁금한 점이 있으시면 질문해주세요.`
+          : mode === 'multimodal'
+          ? `안녕하세요! "${analysis.title}" 콘텐츠를 화면과 자막으로 분석했습니다. 궁금한 점이 있으시면 질문해주세요.`
+          : `안녕하세요! "${analysis.title}" 비디오에 대해 궁금한 점이 있으시면 질문해주세요.`
+      }];
+      setChatMessages(greeting);
+
+      // 기록에 저장 (실패해도 분석 결과는 그대로 표시)
+      saveAnalysis({
+        platform: selectedVideo.platform,
+        videoId: selectedVideo.videoId,
+        url: selectedVideo.url,
+        title: selectedVideo.title,
+        duration: selectedVideo.duration,
+        mode,
+        analysis,
+        transcript,
+        chatMessages: greeting
+      })
+        .then(entry => setLibraryKey(entry.key))
+        .catch(error => console.error('[Video Summarizer] 기록 저장 실패:', error));
 
     } catch (error) {
       setAnalysisState({
@@ -640,9 +832,31 @@ function SidePanel() {
     }
   };
 
-  // 채팅 메시지 전송
+  // 시청하며 캡처 켜기/끄기 (재생 위치를 건드리지 않고 보는 동안 화면을 모음)
+  const toggleWatchCapture = async () => {
+    if (!selectedVideo || !selectedVideoKey) return;
+
+    // 다른 프레임에서 캡처 중일 수 있으므로 중지는 모든 프레임에 보냄
+    await sendToPage({ type: 'STOP_WATCH_CAPTURE' });
+    if (watchCaptureKey === selectedVideoKey) {
+      setWatchCaptureKey(null);
+      return;
+    }
+
+    const response = await sendToPage<{ success?: boolean }>(
+      { type: 'START_WATCH_CAPTURE', elementPath: selectedVideo.elementPath },
+      { frameId: selectedVideo.frameId }
+    );
+    if (response?.success) {
+      setWatchCaptureKey(selectedVideoKey);
+    } else {
+      setAnalysisState(prev => ({ ...prev, error: '페이지에서 비디오를 찾을 수 없습니다. 페이지를 새로고침한 뒤 다시 시도해주세요.' }));
+    }
+  };
+
+  // 채팅 메시지 전송 (답변은 스트리밍으로 표시)
   const sendMessage = async () => {
-    if (!inputMessage.trim() || !analysisState.analysis) return;
+    if (!inputMessage.trim() || !analysisState.analysis || isChatLoading) return;
 
     const userMessage = inputMessage.trim();
     setInputMessage('');
@@ -654,27 +868,83 @@ function SidePanel() {
     setChatMessages(newMessages);
     setIsChatLoading(true);
 
+    const controller = new AbortController();
+    chatAbortRef.current = controller;
+    const entryKey = libraryKey;
+    let answer = '';
+    let finalMessages: ChatMessage[] = newMessages;
+
     try {
-      const apiKey = getApiKey();
-      const response = await step3_chatWithVideo(
-        apiKey,
+      const provider = await getProvider();
+      const stream = step3_chatWithVideoStream(
+        provider,
         analysisState.analysis,
         chatMessages,
-        userMessage
+        userMessage,
+        controller.signal
       );
 
-      setChatMessages([
-        ...newMessages,
-        { role: 'assistant', content: response.answer }
-      ]);
-    } catch {
-      setChatMessages([
-        ...newMessages,
-        { role: 'assistant', content: '죄송합니다. 응답을 생성하는 중 오류가 발생했습니다.' }
-      ]);
+      for await (const delta of stream) {
+        answer += delta;
+        setChatMessages([
+          ...newMessages,
+          { role: 'assistant', content: answer }
+        ]);
+      }
+
+      if (!answer) {
+        throw new Error('빈 응답');
+      }
+      finalMessages = [...newMessages, { role: 'assistant', content: answer }];
+    } catch (error) {
+      if (controller.signal.aborted) {
+        // 중단 시 받은 부분까지만 유지 (선택한 비디오가 바뀌어 초기화된 경우는 제외)
+        finalMessages = answer ? [...newMessages, { role: 'assistant', content: answer }] : newMessages;
+        if (chatAbortRef.current === controller) {
+          setChatMessages(finalMessages);
+        }
+      } else {
+        console.error('[Video Summarizer] 채팅 응답 실패:', error);
+        finalMessages = [
+          ...newMessages,
+          {
+            role: 'assistant',
+            content: answer
+              ? `${answer}\n\n(응답이 중간에 끊겼습니다)`
+              : '죄송합니다. 응답을 생성하는 중 오류가 발생했습니다.'
+          }
+        ];
+        setChatMessages(finalMessages);
+      }
     } finally {
+      if (chatAbortRef.current === controller) {
+        chatAbortRef.current = null;
+      }
       setIsChatLoading(false);
     }
+
+    // 채팅 기록 저장
+    if (entryKey) {
+      updateChatHistory(entryKey, finalMessages)
+        .catch(error => console.error('[Video Summarizer] 채팅 기록 저장 실패:', error));
+    }
+  };
+
+  // 답변 생성 중단
+  const stopMessage = () => {
+    chatAbortRef.current?.abort();
+  };
+
+  // 페이지의 비디오를 해당 위치로 이동 (목차/주요 장면 클릭)
+  const seekVideo = async (timeSeconds: number) => {
+    const response = await sendToPage(
+      { type: 'SEEK_VIDEO', timeSeconds, elementPath: selectedVideo?.elementPath },
+      { frameId: selectedVideo?.frameId }
+    );
+    if (!response) {
+      // 비디오가 있는 프레임이 없으면 응답 없이 실패
+      console.error('[Video Summarizer] 비디오 이동 실패');
+    }
   };
 
   const handleKeyPress = (e: React.KeyboardEvent) => {
@@ -684,6 +954,84 @@ function SidePanel() {
     }
   };
 
+  // 분석 결과 내보내기
+  const handleExport = async (format: ExportFormat) => {
+    if (!analysisState.analysis || !selectedVideo) return;
+    setIsExportMenuOpen(false);
+    setExportingFormat(format);
+
+    try {
+      await exportAnalysis({
+        analysis: analysisState.analysis,
+        title: selectedVideo.title,
+        url: selectedVideo.url,
+        platform: selectedVideo.platform,
+        videoId: selectedVideo.videoId
+      }, format);
+    } catch (error) {
+      console.error('[Video Summarizer] 내보내기 실패:', error);
+      setAnalysisState(prev => ({
+        ...prev,
+        error: error instanceof Error ? `내보내기 실패: ${error.message}` : '내보내기 중 오류가 발생했습니다.'
+      }));
+    } finally {
+      setExportingFormat(null);
+    }
+  };
+
+  // 기록 탭 열기 (최신 목록 불러오기)
+  const openHistoryTab = () => {
+    setActiveTab('history');
+    listAnalyses()
+      .then(setHistoryEntries)
+      .catch(error => console.error('[Video Summarizer] 기록 목록 불러오기 실패:', error));
+  };
+
+  // 기록 항목 열기
+  const openHistoryEntry = (entry: LibraryEntry) => {
+    // 진행 중인 답변 중단 (참조를 비워 중단된 답변이 불러온 채팅 기록을 덮어쓰지 않도록)
+    chatAbortRef.current?.abort();
+    chatAbortRef.current = null;
+    setSelectedVideo({
+      title: entry.title,
+      duration: entry.duration,
+      url: entry.url,
+      platform: entry.platform,
+      videoId: entry.videoId
+    });
+    setAnalysisState({
+      isLoading: false,
+      progress: '저장된 분석 결과',
+      step: 3,
+      analysis: entry.analysis,
+      error: null
+    });
+    setChatMessages(entry.chatMessages);
+    setLibraryKey(entry.key);
+    setActiveTab('summary');
+  };
+
+  // 기록 삭제
+  const removeHistoryEntry = async (key: string) => {
+    try {
+      await deleteAnalysis(key);
+      setHistoryEntries(prev => prev.filter(entry => entry.key !== key));
+      if (key === libraryKey) {
+        setLibraryKey(null);
+      }
+    } catch (error) {
+      console.error('[Video Summarizer] 기록 삭제 실패:', error);
+    }
+  };
+
+  // 기록 검색 (제목, 요약, 키워드)
+  const filteredHistory = historyEntries.filter(entry => {
+    const query = historyQuery.trim().toLowerCase();
+    if (!query) return true;
+    return [entry.title, entry.analysis.summary, ...entry.analysis.keywords]
+      .some(text => text?.toLowerCase().includes(query));
+  });
+
   // 목록 탭 클릭 핸들러
   const handleListTabClick = () => {
     setActiveTab('list');
@@ -698,6 +1046,13 @@ function SidePanel() {
         <div className="sp-logo">
           <span className="sp-logo-icon">🎬</span>
           <span className="sp-logo-text">Video Summarizer</span>
+          <button
+            className="sp-settings-btn"
+            onClick={() => chrome.runtime.openOptionsPage()}
+            title="설정"
+          >
+            ⚙️
+          </button>
         </div>
         {selectedVideo && (
           <div className="sp-video-title" title={selectedVideo.title}>
@@ -737,6 +1092,12 @@ function SidePanel() {
         >
           💬 질문
         </button>
+        <button 
+          className={`sp-tab ${activeTab === 'history' ? 'active' : ''}`}
+          onClick={openHistoryTab}
+        >
+          🗂️ 기록
+        </button>
       </nav>
 
       {/* 메인 콘텐츠 */}
@@ -791,6 +1152,11 @@ function SidePanel() {
                                 📺 {video.quality}
                               </span>
                             )}
+                            {video.author && (
+                              <span className="sp-video-author" title={video.author}>
+                                👤 {video.author}
+                              </span>
+                            )}
                           </div>
                         </div>
                       </div>
@@ -820,20 +1186,41 @@ function SidePanel() {
                       <span>⏱️ {formatDuration(selectedVideo.duration)}</span>
                       <span>💾 {formatSize(selectedVideo.size)}</span>
                     </div>
+                    {captionOptions.length > 0 && (
+                      <label className="sp-caption-select">
+                        <span>📝 자막</span>
+                        <select value={captionChoice} onChange={(e) => setCaptionChoice(e.target.value)}>
+                          <option value="">자동 ({getLanguageName(getPreferredLanguage())} 수동 자막 우선)</option>
+                          {captionOptions.map(option => (
+                            <option key={option.value} value={option.value}>{option.label}</option>
+                          ))}
+                        </select>
+                      </label>
+                    )}
                     <div className="sp-analyze-buttons">
-                      <button className="sp-analyze-btn" onClick={() => startAnalysis(false)}>
+                      <button className="sp-analyze-btn" onClick={() => startAnalysis('transcript')}>
                         📝 자막 기반 분석
                       </button>
-                      {hasGeminiKey() && (
-                        <button className="sp-analyze-btn sp-analyze-gemini" onClick={() => startAnalysis(true)}>
+                      <button className="sp-analyze-btn sp-analyze-multimodal" onClick={() => startAnalysis('multimodal')}>
+                        🖼️ 화면 + 자막 분석
+                      </button>
+                      {geminiAvailable && (
+                        <button className="sp-analyze-btn sp-analyze-gemini" onClick={() => startAnalysis('gemini')}>
                           🎬 Gemini 비디오 분석
                         </button>
                       )}
                     </div>
+                    <button
+                      className={`sp-watch-capture-btn ${watchCaptureKey === selectedVideoKey ? 'active' : ''}`}
+                      onClick={toggleWatchCapture}
+                      title="재생 위치를 건드리지 않고, 비디오를 보는 동안 장면이 바뀔 때마다 화면을 모아 화면 + 자막 분석에 사용합니다"
+                    >
+                      {watchCaptureKey === selectedVideoKey ? '⏺️ 시청하며 캡처 중 (끄기)' : '👀 시청하며 캡처'}
+                    </button>
                     <p className="sp-analyze-hint">
-                      {hasGeminiKey() 
-                        ? '💡 자막 기반: 빠름 (OpenAI) | Gemini: 비디오 직접 분석'
-                        : '💡 Gemini API 키를 추가하면 비디오 직접 분석 가능'}
+                      {geminiAvailable 
+                        ? `💡 자막 기반: 빠름 (${providerLabel}) | 화면 + 자막: 캡처한 화면까지 분석 | Gemini: 비디오 직접 분석`
+                        : `💡 자막 기반: 빠름 (${providerLabel}) | 화면 + 자막: 자막이 없는 화면 녹화, 슬라이드 강의에 적합`}
                     </p>
                   </>
                 ) : (
@@ -871,6 +1258,41 @@ function SidePanel() {
             {/* 분석 결과 */}
             {analysisState.analysis && (
               <>
+                {libraryKey && (
+                  <div className="sp-library-note">
+                    <span>💾 기록에 저장된 분석 결과입니다</span>
+                    <button
+                      onClick={() => {
+                        setAnalysisState({ isLoading: false, progress: '', step: 0, analysis: null, error: null });
+                        setChatMessages([]);
+                      }}
+                    >
+                      🔄 다시 분석
+                    </button>
+                  </div>
+                )}
+
+                <div className="sp-export">
+                  <button
+                    className="sp-export-btn"
+                    onClick={() => setIsExportMenuOpen(open => !open)}
+                    disabled={exportingFormat !== null}
+                  >
+                    {exportingFormat ? '⏳ 내보내는 중...' : '📤 내보내기'}
+                  </button>
+                  {isExportMenuOpen && (
+                    <ul className="sp-export-menu">
+                      {(Object.keys(EXPORT_FORMAT_LABELS) as ExportFormat[]).map(format => (
+                        <li key={format}>
+                          <button onClick={() => handleExport(format)}>
+                            {EXPORT_FORMAT_LABELS[format]}
+                          </button>
+                        </li>
+                      ))}
+                    </ul>
+                  )}
+                </div>
+
                 <section className="sp-section">
                   <h3>📋 요약</h3>
                   <p className="sp-summary-text">{analysisState.analysis.summary}</p>
@@ -882,14 +1304,25 @@ function SidePanel() {
                     {analysisState.analysis.tableOfContents.map((item, i) => (
                       <div 
                         key={i} 
-                        className="sp-toc-preview-item"
+                        className={`sp-toc-preview-item ${i === currentSectionIndex ? 'playing' : ''}`}
                         onClick={() => {
                           setActiveTab('toc');
                           setExpandedTocItems(new Set([i]));
                         }}
                       >
-                        <span className="sp-toc-preview-num">{i + 1}</span>
+                        <span className="sp-toc-preview-num">{i === currentSectionIndex ? '▶' : i + 1}</span>
                         <span className="sp-toc-preview-title">{item.title}</span>
+                        {i === currentSectionIndex && playback && (
+                          <span
+                            className="sp-toc-preview-progress"
+                            style={{
+                              width: `${getSectionProgress(
+                                analysisState.analysis!.tableOfContents, i, playback.time,
+                                playback.duration ?? analysisState.analysis!.duration
+                              ) * 100}%`
+                            }}
+                          />
+                        )}
                       </div>
                     ))}
                   </div>
@@ -901,7 +1334,12 @@ function SidePanel() {
                     <h3>🖼️ 주요 장면 ({analysisState.analysis.keyFrames.length}개)</h3>
                     <div className="sp-keyframes-gallery">
                       {analysisState.analysis.keyFrames.map((kf, i) => (
-                        <div key={i} className="sp-keyframe-item">
+                        <div 
+                          key={i} 
+                          className="sp-keyframe-item"
+                          onClick={() => seekVideo(kf.timestampSeconds)}
+                          title={`${kf.timestamp}(으)로 이동`}
+                        >
                           {kf.imageBase64 && (
                             <div className="sp-keyframe-image-container">
                               <img 
@@ -987,7 +1425,8 @@ function SidePanel() {
                 return (
                   <li 
                     key={i} 
-                    className={`sp-toc-item ${isExpanded ? 'expanded' : ''}`}
+                    ref={el => { tocItemRefs.current[i] = el; }}
+                    className={`sp-toc-item ${isExpanded ? 'expanded' : ''} ${i === currentSectionIndex ? 'playing' : ''}`}
                     onClick={() => {
                       setExpandedTocItems(prev => {
                         const next = new Set(prev);
@@ -1004,7 +1443,21 @@ function SidePanel() {
                       <span className="sp-toc-num">{i + 1}</span>
                       <div className="sp-toc-title-row">
                         <strong>{item.title}</strong>
-                        <span className={`sp-toc-arrow ${isExpanded ? 'open' : ''}`}>▼</span>
+                        <div className="sp-toc-actions">
+                          {item.timestampSeconds !== undefined && (
+                            <button
+                              className="sp-toc-jump"
+                              onClick={(e) => {
+                                e.stopPropagation();
+                                seekVideo(item.timestampSeconds!);
+                              }}
+                              title="이 구간으로 이동"
+                            >
+                              ▶ {formatSeconds(item.timestampSeconds)}
+                            </button>
+                          )}
+                          <span className={`sp-toc-arrow ${isExpanded ? 'open' : ''}`}>▼</span>
+                        </div>
                       </div>
                       <p className="sp-toc-desc">{item.description}</p>
                     </div>
@@ -1062,7 +1515,7 @@ function SidePanel() {
                   </div>
                 </div>
               ))}
-              {isChatLoading && (
+              {isChatLoading && chatMessages[chatMessages.length - 1]?.role === 'user' && (
                 <div className="sp-message assistant">
                   <div className="sp-message-content sp-typing">
                     <span></span><span></span><span></span>
@@ -1100,15 +1553,72 @@ function SidePanel() {
                 placeholder="콘텐츠 관련 질문을 입력하세요..."
                 rows={2}
               />
-              <button 
-                onClick={sendMessage} 
-                disabled={!inputMessage.trim() || isChatLoading}
-              >
-                ✈️ 전송
-              </button>
+              {isChatLoading ? (
+                <button className="sp-chat-stop" onClick={stopMessage}>
+                  ⏹ 중지
+                </button>
+              ) : (
+                <button 
+                  onClick={sendMessage} 
+                  disabled={!inputMessage.trim()}
+                >
+                  ✈️ 전송
+                </button>
+              )}
             </div>
           </div>
         )}
+
+        {/* 기록 탭 */}
+        {activeTab === 'history' && (
+          <div className="sp-history">
+            <input
+              type="search"
+              className="sp-history-search"
+              value={historyQuery}
+              onChange={(e) => setHistoryQuery(e.target.value)}
+              placeholder="제목, 요약, 키워드 검색..."
+            />
+
+            {filteredHistory.length === 0 ? (
+              <div className="sp-empty">
+                <div className="sp-empty-icon">🗂️</div>
+                <h3>{historyEntries.length === 0 ? '저장된 분석이 없습니다' : '검색 결과가 없습니다'}</h3>
+                <p>분석한 비디오는 자동으로 기록에 저장됩니다.</p>
+              </div>
+            ) : (
+              <ul className="sp-history-list">
+                {filteredHistory.map(entry => (
+                  <li
+                    key={entry.key}
+                    className={`sp-history-item ${entry.key === libraryKey ? 'selected' : ''}`}
+                    onClick={() => openHistoryEntry(entry)}
+                  >
+                    <div className="sp-history-info">
+                      <span className="sp-history-title" title={entry.title}>{entry.title}</span>
+                      <div className="sp-history-meta">
+                        <span>{entry.platform}</span>
+                        <span>{ANALYSIS_MODE_LABELS[entry.mode]}</span>
+                        <span>{new Date(entry.updatedAt).toLocaleDateString('ko-KR')}</span>
+                      </div>
+                      <p className="sp-history-summary">{entry.analysis.summary}</p>
+                    </div>
+                    <button
+                      className="sp-history-delete"
+                      onClick={(e) => {
+                        e.stopPropagation();
+                        removeHistoryEntry(entry.key);
+                      }}
+                      title="삭제"
+                    >
+                      🗑️
+                    </button>
+                  </li>
+                ))}
+              </ul>
+            )}
+          </div>
+        )}
       </main>
     </div>
   );
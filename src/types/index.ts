@@ -1,9 +1,38 @@
 // 비디오 플랫폼 타입
-export type VideoPlatform = 'youtube' | 'vimeo' | 'html5' | 'stream' | 'unknown';
+export type VideoPlatform =
+  | 'youtube'
+  | 'vimeo'
+  | 'twitch'
+  | 'dailymotion'
+  | 'wistia'
+  | 'loom'
+  | 'ted'
+  | 'coursera'
+  | 'html5'
+  | 'stream'
+  | 'unknown';
 
 // 스트림 타입 (네트워크 감지용)
 export type StreamType = 'mp4' | 'webm' | 'hls' | 'dash' | 'flv' | 'unknown';
 
+// 스트림 화질 (HLS 마스터 플레이리스트의 EXT-X-STREAM-INF)
+export interface StreamVariant {
+  url: string;
+  bandwidth?: number;       // bps
+  resolution?: string;      // "1920x1080"
+  codecs?: string;
+  frameRate?: number;
+}
+
+// 대체 트랙 (오디오, 자막 - EXT-X-MEDIA)
+export interface StreamRendition {
+  type: 'audio' | 'video' | 'subtitles' | 'closed-captions';
+  name: string;
+  language?: string;
+  url?: string;
+  isDefault?: boolean;
+}
+
 // 감지된 스트림 정보
 export interface DetectedStream {
   url: string;
@@ -12,6 +41,10 @@ export interface DetectedStream {
   quality?: string;
   contentType?: string;
   timestamp: number;
+  duration?: number;        // 플레이리스트 기준 전체 길이 (초)
+  variants?: StreamVariant[];
+  renditions?: StreamRendition[];
+  segmentCount?: number;    // 이 스트림으로 묶인 세그먼트 요청 수
 }
 
 // 비디오 정보 인터페이스
@@ -24,6 +57,12 @@ export interface VideoInfo {
   thumbnailUrl?: string;
   streams?: DetectedStream[]; // 감지된 스트림 목록
   sourceUrl?: string; // 비디오 소스 URL
+  author?: string; // 업로더/채널 이름
+  description?: string; // 페이지 구조화 데이터(JSON-LD, Open Graph)의 설명
+  uploadDate?: string;  // 게시일 (ISO 8601)
+  frameId?: number;     // 비디오가 있는 프레임 (Background가 보고한 프레임으로 채움)
+  isEmbed?: boolean;    // 상위 프레임에서 iframe으로 감지한 항목 (플레이어는 하위 프레임에 있음)
+  elementPath?: string[]; // 비디오 요소 경로 (shadow host를 거치는 선택자 목록, shadowDom.getElementPath)
 }
 
 // 요약 결과 인터페이스
@@ -34,6 +73,9 @@ export interface SummaryResult {
   timestamp: number;
 }
 
+// 분석 방식 (자막 기반 / 백엔드 Gemini / 화면 캡처 + 자막)
+export type AnalysisMode = 'transcript' | 'gemini' | 'multimodal';
+
 // 목차 항목
 export interface TableOfContentsItem {
   title: string;
@@ -41,9 +83,35 @@ export interface TableOfContentsItem {
   description?: string;
 }
 
+// YouTube 자막 트랙 (ytInitialPlayerResponse의 captionTracks)
+export interface CaptionTrack {
+  baseUrl: string;
+  languageCode: string;
+  name: string;
+  kind?: string;            // 'asr' = 자동 생성 자막
+  isTranslatable?: boolean; // tlang 번역 지원 여부
+}
+
+// 자막 트랙 선택 (translateTo가 있으면 YouTube 번역 자막 사용)
+export interface CaptionSelection {
+  languageCode: string;
+  kind?: string;
+  translateTo?: string;
+}
+
+// 프레임 캡처 옵션 (CAPTURE_VIDEO_FRAMES)
+export interface FrameCaptureOptions {
+  sampling?: 'interval' | 'scene'; // 고정 간격 / 장면 전환 지점 (기본 interval, 장면 감지가 안 되면 고정 간격)
+  intervalSeconds?: number;   // interval: 캡처 간격 (초, 기본 30)
+  maxFrames?: number;         // 최대 프레임 수 (기본 10)
+  minSpacingSeconds?: number; // scene: 사진 사이 최소 간격 (초, 기본 10)
+  allowSeek?: boolean;        // 다른 방법이 없으면 페이지 비디오를 멈추고 이동하며 캡처 (사용자 동의 필요)
+}
+
 // 메시지 타입 (Content Script ↔ Background ↔ Popup 통신)
 export type MessageType = 
   | 'GET_VIDEO_INFO'
+  | 'GET_TAB_VIDEOS'
   | 'VIDEO_INFO_RESPONSE'
   | 'REQUEST_SUMMARY'
   | 'SUMMARY_RESPONSE'
@@ -51,17 +119,34 @@ export type MessageType =
   | 'STREAM_DETECTED'
   | 'GET_STREAMS'
   | 'STREAMS_RESPONSE'
-  | 'GET_YOUTUBE_TRANSCRIPT'
+  | 'GET_TRANSCRIPT'
+  | 'GET_CAPTION_TRACKS'
+  | 'GET_HTML5_TRANSCRIPT'
   | 'YOUTUBE_TRANSCRIPT_RESPONSE'
   | 'CAPTURE_VIDEO_FRAMES'
   | 'CAPTURE_FRAMES_RESPONSE'
   | 'CAPTURE_SCREEN'
+  | 'START_WATCH_CAPTURE'
+  | 'STOP_WATCH_CAPTURE'
+  | 'FETCH_OEMBED'
+  | 'SEEK_VIDEO'
+  | 'VIDEO_TIME_UPDATE'
   | 'ERROR';
 
 export interface Message {
   type: MessageType;
   payload?: VideoInfo | VideoInfo[] | SummaryResult | DetectedStream[] | string | null;
   tabId?: number;
+  mode?: AnalysisMode; // REQUEST_SUMMARY 분석 방식 (기본: transcript)
+  timeSeconds?: number; // SEEK_VIDEO 이동할 위치, VIDEO_TIME_UPDATE 현재 재생 위치 (초)
+  duration?: number;    // VIDEO_TIME_UPDATE 비디오 길이 (초)
+  platform?: VideoPlatform; // GET_TRANSCRIPT, GET_CAPTION_TRACKS 대상 플랫폼
+  videoId?: string;     // GET_TRANSCRIPT, GET_CAPTION_TRACKS 대상 비디오
+  caption?: CaptionSelection; // GET_TRANSCRIPT 자막 트랙 (생략 시 자동 선택)
+  sourceUrl?: string;   // GET_HTML5_TRANSCRIPT 대상 비디오 소스 URL (생략 시 페이지의 기본 비디오)
+  url?: string;         // FETCH_OEMBED 요청할 oEmbed 주소
+  elementPath?: string[]; // SEEK_VIDEO, CAPTURE_VIDEO_FRAMES, START_WATCH_CAPTURE 대상 비디오 요소 경로 (생략 시 페이지의 기본 비디오)
+  capture?: FrameCaptureOptions; // CAPTURE_VIDEO_FRAMES, START_WATCH_CAPTURE 캡처 방식/간격/개수
 }
 
 // 확장 프로그램 상태
@@ -6,16 +6,18 @@ import manifest from './manifest.json'
 export default defineConfig(({ mode }) => {
   // .env 파일 로드 (OPENAI_API_KEY 포함)
   const env = loadEnv(mode, process.cwd(), '')
+  // API 키는 개발 모드에서만 번들에 주입 (배포 빌드는 설정 페이지의 값 사용)
+  const isDev = mode === 'development'
   
   return {
     plugins: [
       react(),
       crx({ manifest }),
     ],
-    // .env의 API 키들을 직접 사용
+    // .env의 API 키들은 개발용 폴백으로만 사용
     define: {
-      '__OPENAI_API_KEY__': JSON.stringify(env.OPENAI_API_KEY || ''),
-      '__GEMINI_API_KEY__': JSON.stringify(env.GEMINI_API_KEY || ''),
+      '__OPENAI_API_KEY__': JSON.stringify(isDev ? env.OPENAI_API_KEY || '' : ''),
+      '__GEMINI_API_KEY__': JSON.stringify(isDev ? env.GEMINI_API_KEY || '' : ''),
       '__BACKEND_API_URL__': JSON.stringify(env.BACKEND_API_URL || 'http://localhost:5000'),
     },
     server: {
@@ -31,6 +33,7 @@ export default defineConfig(({ mode }) => {
         input: {
           main: 'index.html',
           sidepanel: 'sidepanel.html',
+          options: 'options.html',
         },
       },
     },